@@ -5,47 +5,162 @@ import { VideoProcessor } from './videoProcessor';
 import { Transcriber } from './transcriber';
 import { ClaudeAnalyzer } from './claudeAnalyzer';
 import { FileOrganizer } from './fileOrganizer';
-import { HighlightsSelector } from './highlightsSelector';
-import { HighlightsCutter } from './highlightsCutter';
-import { ApprovedHighlightsSelector } from './approvedHighlightsSelector';
-import { FullVideoAssembler } from './fullVideoAssembler';
+import { HighlightsSelector, SelectHighlightsOptions } from './highlightsSelector';
+import { CutOptions, HighlightsCutter } from './highlightsCutter';
+import { BoundaryRefiner } from './boundaryRefiner';
+import { ApprovedHighlights, ApprovedHighlightsSelector } from './approvedHighlightsSelector';
+import { AssembleOptions, FullVideoAssembler } from './fullVideoAssembler';
+import { AssemblyTemplates, AssetLibrary } from './assemblyTemplates';
+import { ThumbnailGenerator, ThumbnailSource } from './thumbnailGenerator';
+import { PipelineState, PipelineStep } from './pipelineState';
+import { TranscriptionProvider, createTranscriptionProvider } from './transcriptionProviders';
+import { LlmProvider, createLlmProvider } from './llmProviders';
+import { Languages } from './languages';
+import { CACHE_KINDS, CacheEntryInfo, CacheKind, ResponseCache } from './responseCache';
+import { UsageLedger, UsageTotals } from './usageLedger';
 import { ProcessingResult, VideoFile } from './types';
+import { config } from './config';
 
-export type StepType = 'extract' | 'transcribe' | 'analyze' | 'organize' | 'highlights' | 'cut-highlights' | 'approve-highlights' | 'assemble-full';
+export type StepType = 'extract' | 'transcribe' | 'analyze' | 'organize' | 'highlights' | 'cut-highlights' | 'approve-highlights' | 'assemble-full' | 'thumbnails';
 export type CleanType = 'upload' | 'output' | 'all';
 
+export const STEP_TYPES: StepType[] = ['extract', 'transcribe', 'analyze', 'organize', 'highlights', 'cut-highlights', 'approve-highlights', 'assemble-full', 'thumbnails'];
+export const CLEAN_TYPES: CleanType[] = ['upload', 'output', 'all'];
+
+export type CacheAction = 'list' | 'invalidate' | 'prune';
+export const CACHE_ACTIONS: CacheAction[] = ['list', 'invalidate', 'prune'];
+
+/**
+ * Answers for the questions a step would otherwise ask interactively.
+ * Anything left undefined falls back to the readline prompt (if available).
+ */
+export interface StepOptions {
+  /** Restrict the step to a single video (path or file name, extension optional) */
+  input?: string;
+  /** Overwrite existing results instead of asking */
+  overwrite?: boolean;
+  /** Segment / clip selection, same syntax as the interactive prompt */
+  select?: string;
+  /** Intro for assembly: file path, 'auto' (as the template says, no prompt) or 'none' */
+  intro?: string;
+  /** Let Claude propose highlight candidates (default: config.highlights.aiSuggestions) */
+  suggest?: boolean;
+  /** Join adjacent selected segments into one clip (default: config.highlights.mergeAdjacent) */
+  mergeAdjacent?: boolean;
+  /** Assembly template name; stored in the project for later runs */
+  template?: string;
+  /** Loudness preset for cut clips and the full video (default: config.loudness.preset) */
+  loudness?: string;
+  /** Background music for clips and the full video: track name, 'auto' or 'none' (default: config.music.track) */
+  music?: string;
+  /** Language spoken in the video: ISO 639-1 code or 'auto' (default: config.languages.source) */
+  language?: string;
+}
+
+/**
+ * Backends used instead of the ones named in config - e.g. the fake providers for offline runs
+ */
+export interface AgentProviders {
+  transcription?: TranscriptionProvider;
+  llm?: LlmProvider;
+}
+
+export interface StepSummary {
+  processed: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * --input named a video no file of the step matches - most likely a typo, not "nothing to do"
+ */
+export class InputNotFoundError extends Error {
+  constructor(readonly input: string) {
+    super(Languages.ui({
+      pl: `Żaden plik nie pasuje do --input ${input}`,
+      en: `No file matches --input ${input}`,
+    }));
+    this.name = 'InputNotFoundError';
+  }
+}
+
 export class Agent {
   private readonly uploadDir = path.join(process.cwd(), 'upload');
   private readonly separatedAudioDir = path.join(process.cwd(), 'separated-audio');
   private readonly readyVideoDir = path.join(process.cwd(), 'ready-video');
-  private readonly introDir = path.join(process.cwd(), 'additional', 'intro');
   private rl: readline.Interface | null = null;
+  private transcriptionProvider: TranscriptionProvider | null;
+  private llmProvider: LlmProvider | null;
+  // Whether matchesInput accepted anything since the step started
+  private inputMatched = false;
+
+  constructor(providers: AgentProviders = {}) {
+    this.transcriptionProvider = providers.transcription ?? null;
+    this.llmProvider = providers.llm ?? null;
+  }
 
   setReadlineInterface(rl: readline.Interface): void {
     this.rl = rl;
   }
 
-  async processAllVideos(): Promise<ProcessingResult[]> {
+  /**
+   * Transcription backend from config, created on first use so that runs which
+   * never transcribe don't need its credentials or binaries
+   */
+  private getTranscriptionProvider(): TranscriptionProvider {
+    if (!this.transcriptionProvider) {
+      this.transcriptionProvider = createTranscriptionProvider();
+    }
+    return this.transcriptionProvider;
+  }
+
+  /**
+   * Claude backend from config, created on first use like the transcription one
+   */
+  private getLlmProvider(): LlmProvider {
+    if (!this.llmProvider) {
+      this.llmProvider = createLlmProvider();
+    }
+    return this.llmProvider;
+  }
+
+  async processAllVideos(options: StepOptions = {}): Promise<ProcessingResult[]> {
     const results: ProcessingResult[] = [];
 
-    console.log('🚀 Starting video processing agent...\n');
+    console.log(Languages.ui({
+      pl: '🚀 Uruchamiam agenta przetwarzania wideo...\n',
+      en: '🚀 Starting video processing agent...\n',
+    }));
 
     try {
-      const videoFiles = VideoProcessor.getVideoFiles();
+      const videoFiles = VideoProcessor.getVideoFiles()
+        .filter((f) => this.matchesInput(path.basename(f.name, f.ext), options));
 
       if (videoFiles.length === 0) {
-        console.log('ℹ️  No video files found in upload directory');
+        if (options.input) {
+          throw new InputNotFoundError(options.input);
+        }
+        console.log(Languages.ui({
+          pl: 'ℹ️  Brak plików wideo w folderze upload',
+          en: 'ℹ️  No video files in the upload folder',
+        }));
         return results;
       }
 
-      console.log(`📊 Found ${videoFiles.length} video file(s)\n`);
+      console.log(Languages.ui({
+        pl: `📊 Znaleziono ${videoFiles.length} plik(ów) wideo\n`,
+        en: `📊 Found ${videoFiles.length} video file(s)\n`,
+      }));
 
       for (const videoFile of videoFiles) {
         try {
-          const result = await this.processVideo(videoFile.name);
+          const result = await this.processVideo(videoFile.name, options.overwrite ?? false, options.language);
           results.push(result);
         } catch (err) {
-          console.error(`\n✗ Failed to process ${videoFile.name}`);
+          console.error(Languages.ui({
+            pl: `\n✗ Nie udało się przetworzyć ${videoFile.name}`,
+            en: `\n✗ Failed to process ${videoFile.name}`,
+          }));
           results.push({
             videoPath: '',
             audioPath: '',
@@ -57,39 +172,60 @@ export class Agent {
         }
       }
 
-      console.log('\n✅ Processing complete');
+      console.log(Languages.ui({ pl: '\n✅ Przetwarzanie zakończone', en: '\n✅ Processing complete' }));
       this.printSummary(results);
 
       return results;
     } catch (err) {
-      console.error('✗ Agent failed:', err);
+      if (!(err instanceof InputNotFoundError)) {
+        console.error(Languages.ui({ pl: '✗ Błąd agenta:', en: '✗ Agent failed:' }), err);
+      }
       throw err;
     }
   }
 
-  private async processVideo(videoFileName: string): Promise<ProcessingResult> {
+  private async processVideo(videoFileName: string, force: boolean, language?: string): Promise<ProcessingResult> {
     const videoFile = VideoProcessor.getVideoFiles().find((f: VideoFile) => f.name === videoFileName);
     if (!videoFile) {
       throw new Error(`Video file not found: ${videoFileName}`);
     }
 
+    const baseName = path.basename(videoFileName, videoFile.ext);
+    const state = PipelineState.load(this.separatedAudioDir, baseName);
+    const { audioPath, videoPath } = VideoProcessor.getOutputPaths(videoFile);
+    const srtPath = path.join(this.separatedAudioDir, `${baseName}.srt`);
+    const analysisPath = path.join(this.separatedAudioDir, `${baseName}_analysis.json`);
+
     // Step 1: Extract audio and copy video
-    const { audioPath, videoPath } = await VideoProcessor.processVideo(videoFile);
+    await this.runTracked(state, 'extract', [videoFile.path], async () => {
+      await VideoProcessor.processVideo(videoFile);
+      return [audioPath, videoPath];
+    }, force);
 
     // Step 2: Transcribe audio to SRT
-    const baseName = path.basename(videoFileName, videoFile.ext);
-    const srtPath = path.join(path.dirname(audioPath), `${baseName}.srt`);
-    await Transcriber.transcribeAudio(audioPath, srtPath);
+    await this.runTracked(state, 'transcribe', [audioPath], async () => {
+      return Transcriber.transcribeAudio(audioPath, srtPath, this.getTranscriptionProvider(), language);
+    }, force || this.languageChanged(srtPath, language));
 
     // Step 3: Analyze with Claude
-    const srtContent = Transcriber.readSRT(srtPath);
-    const analysisResult = await ClaudeAnalyzer.analyzeSRT(srtContent, videoFileName);
-
-    const analysisPath = path.join(path.dirname(audioPath), `${baseName}_analysis.json`);
-    ClaudeAnalyzer.saveAnalysis(analysisResult, analysisPath);
+    await this.runTracked(state, 'analyze', [srtPath], async () => {
+      const srtContent = Transcriber.readSRT(srtPath);
+      const analysisResult = await ClaudeAnalyzer.analyzeSRT(
+        srtContent,
+        videoFileName,
+        Transcriber.getSourceLanguage(srtPath),
+        this.getLlmProvider(),
+      );
+      ClaudeAnalyzer.saveAnalysis(analysisResult, analysisPath);
+      return [analysisPath];
+    }, force);
 
     // Step 4: Organize files in ready-video folder with platform content
-    await FileOrganizer.organizeProjectFiles(videoPath, audioPath, srtPath);
+    // (chapters and window summaries come from the analysis - a new one makes this step stale)
+    await this.runTracked(state, 'organize', [videoPath, audioPath, srtPath, analysisPath], async () => {
+      const { files } = await FileOrganizer.organizeProjectFiles(videoPath, audioPath, srtPath, this.getLlmProvider());
+      return Object.values(files);
+    }, force);
 
     return {
       videoPath,
@@ -100,142 +236,392 @@ export class Agent {
     };
   }
 
+  /**
+   * Run a pipeline step unless the video's state manifest says its previous result
+   * is still valid. Returns true when the step actually ran.
+   */
+  private async runTracked(
+    state: PipelineState,
+    step: PipelineStep,
+    inputs: string[],
+    run: () => Promise<string[]>,
+    force = false,
+  ): Promise<boolean> {
+    const staleReason = force
+      ? Languages.ui({ pl: 'wymuszone ponowne uruchomienie', en: 'forced rerun' })
+      : await state.getStaleReason(step, inputs);
+
+    if (!staleReason) {
+      console.log(Languages.ui({
+        pl: `⏭ ${step}: wynik aktualny - pomijam`,
+        en: `⏭ ${step}: result up to date - skipping`,
+      }));
+      return false;
+    }
+
+    console.log(`▶ ${step}: ${staleReason}`);
+    state.markRunning(step);
+
+    try {
+      const outputs = await UsageLedger.track(state.videoName, run);
+      await state.markCompleted(step, inputs, outputs);
+      return true;
+    } catch (err) {
+      state.markFailed(step, err);
+      throw err;
+    }
+  }
+
+  /**
+   * Whether an existing transcript is in another language than the one asked for with
+   * --language - the override makes it stale even though the audio is the same
+   */
+  private languageChanged(srtPath: string, language: string | undefined): boolean {
+    const requested = language === undefined ? undefined : Languages.sourceFor(language);
+    if (!requested || !fs.existsSync(srtPath)) {
+      return false;
+    }
+    return Transcriber.getSourceLanguage(srtPath) !== requested;
+  }
+
+  /**
+   * Whether a single-step run can keep an existing output. Outputs that predate the
+   * state manifest are trusted; tracked ones only while their inputs are unchanged.
+   */
+  private async canKeepOutput(
+    state: PipelineState,
+    step: PipelineStep,
+    inputs: string[],
+    outputPath: string,
+    options: StepOptions,
+  ): Promise<boolean> {
+    if (options.overwrite || !fs.existsSync(outputPath)) {
+      return false;
+    }
+    if (!state.getRecord(step)) {
+      return true;
+    }
+    return (await state.getStaleReason(step, inputs)) === null;
+  }
+
   private printSummary(results: ProcessingResult[]): void {
     const successful = results.filter(r => r.success).length;
     const failed = results.filter(r => !r.success).length;
 
-    console.log(`\n📋 Summary:`);
-    console.log(`  ✓ Successful: ${successful}`);
-    console.log(`  ✗ Failed: ${failed}`);
-    console.log(`  📁 Output directories:`);
-    console.log(`    - separated-audio/ (analysis files)`);
-    console.log(`    - ready-video/ (organized projects with platform content)`);
+    console.log(Languages.ui({ pl: `\n📋 Podsumowanie:`, en: `\n📋 Summary:` }));
+    console.log(Languages.ui({ pl: `  ✓ Udane: ${successful}`, en: `  ✓ Successful: ${successful}` }));
+    console.log(Languages.ui({ pl: `  ✗ Nieudane: ${failed}`, en: `  ✗ Failed: ${failed}` }));
+    console.log(Languages.ui({ pl: `  📁 Foldery wyjściowe:`, en: `  📁 Output directories:` }));
+    console.log(Languages.ui({
+      pl: `    - separated-audio/ (pliki analizy)`,
+      en: `    - separated-audio/ (analysis files)`,
+    }));
+    console.log(Languages.ui({
+      pl: `    - ready-video/ (projekty z treściami platform)`,
+      en: `    - ready-video/ (organized projects with platform content)`,
+    }));
+    this.printUsage(UsageLedger.getRunTotals(), Languages.ui({ pl: 'tego uruchomienia', en: 'this run' }));
+  }
+
+  /**
+   * API usage and cost per video from the ledgers in config.usage.dir, for `period`
+   * ('2026-10' = one month, '2026' = a year, 'all' = everything; default: this month)
+   */
+  usage(period: string = new Date().toISOString().slice(0, 7)): void {
+    if (period !== 'all' && !/^\d{4}(-\d{2}){0,2}$/.test(period)) {
+      throw new Error(Languages.ui({
+        pl: `Nieprawidłowy okres: ${period} (RRRR-MM, RRRR, RRRR-MM-DD lub all)`,
+        en: `Invalid period: ${period} (YYYY-MM, YYYY, YYYY-MM-DD or all)`,
+      }));
+    }
+    this.printUsage(UsageLedger.getTotals(period === 'all' ? '' : period), Languages.ui({
+      pl: period === 'all' ? 'łącznie' : period,
+      en: period === 'all' ? 'all time' : period,
+    }));
+  }
+
+  private printUsage(totals: Map<string, UsageTotals>, title: string): void {
+    console.log(Languages.ui({ pl: `\n💰 Użycie API (${title}):`, en: `\n💰 API usage (${title}):` }));
+    if (totals.size === 0) {
+      console.log(Languages.ui({ pl: '  Brak wywołań API', en: '  No API calls' }));
+      return;
+    }
+
+    const rows = [...totals].map(([videoName, t]) => [
+      videoName,
+      (t.audioSeconds / 60).toFixed(1),
+      String(t.inputTokens),
+      String(t.outputTokens),
+      `${(t.durationMs / 1000).toFixed(1)}s`,
+      `$${t.costUsd.toFixed(4)}${t.unpriced ? '*' : ''}`,
+      t.cachedCalls > 0 ? `${t.calls} (${t.cachedCalls} ${Languages.ui({
+        pl: 'z cache',
+        en: 'cached',
+      })})` : String(t.calls),
+    ]);
+    const total = UsageLedger.sum(totals.values());
+    rows.push([
+      Languages.ui({ pl: 'RAZEM', en: 'TOTAL' }),
+      (total.audioSeconds / 60).toFixed(1),
+      String(total.inputTokens),
+      String(total.outputTokens),
+      `${(total.durationMs / 1000).toFixed(1)}s`,
+      `$${total.costUsd.toFixed(4)}${total.unpriced ? '*' : ''}`,
+      String(total.calls),
+    ]);
+
+    const header = Languages.ui({
+      pl: 'Film|Audio [min]|Tokeny we|Tokeny wy|Czas|Koszt|Wywołania',
+      en: 'Video|Audio [min]|Tokens in|Tokens out|Time|Cost|Calls',
+    })
+      .split('|');
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => (row[i] ?? '').length)));
+    const format = (row: string[]) =>
+      '  ' + row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i] ?? 0) : cell.padStart(widths[i] ?? 0))).join('  ');
+
+    console.log(format(header));
+    rows.forEach((row, index) => {
+      if (index === rows.length - 1) {
+        console.log('  ' + '-'.repeat(widths.reduce((sum, w) => sum + w + 2, -2)));
+      }
+      console.log(format(row));
+    });
+    if (total.unpriced) {
+      console.log(Languages.ui({
+        pl: '  * brak ceny części modeli w config.usage.prices - liczone jako 0',
+        en: '  * some models have no price in config.usage.prices - counted as 0',
+      }));
+    }
   }
 
-  async runStep(step: StepType): Promise<void> {
-    console.log(`🔧 Running step: ${step}\n`);
+  async runStep(step: StepType, options: StepOptions = {}): Promise<StepSummary> {
+    console.log(Languages.ui({ pl: `🔧 Uruchamiam krok: ${step}\n`, en: `🔧 Running step: ${step}\n` }));
+
+    const summary: StepSummary = { processed: 0, skipped: 0, failed: 0 };
+    this.inputMatched = false;
 
     switch (step) {
       case 'extract':
-        await this.runExtractStep();
+        await this.runExtractStep(options, summary);
         break;
       case 'transcribe':
-        await this.runTranscribeStep();
+        await this.runTranscribeStep(options, summary);
         break;
       case 'analyze':
-        await this.runAnalyzeStep();
+        await this.runAnalyzeStep(options, summary);
         break;
       case 'organize':
-        await this.runOrganizeStep();
+        await this.runOrganizeStep(options, summary);
         break;
       case 'highlights':
-        await this.runHighlightsStep();
+        await this.runHighlightsStep(options, summary);
         break;
       case 'cut-highlights':
-        await this.runCutHighlightsStep();
+        await this.runCutHighlightsStep(options, summary);
         break;
       case 'approve-highlights':
-        await this.runApproveHighlightsStep();
+        await this.runApproveHighlightsStep(options, summary);
         break;
       case 'assemble-full':
-        await this.runAssembleFullStep();
+        await this.runAssembleFullStep(options, summary);
+        break;
+      case 'thumbnails':
+        await this.runThumbnailsStep(options, summary);
         break;
     }
+
+    // A step that failed before looking at the files already reports the failure
+    if (options.input && !this.inputMatched && summary.failed === 0) {
+      throw new InputNotFoundError(options.input);
+    }
+
+    const usage = UsageLedger.getRunTotals();
+    if (usage.size > 0) {
+      this.printUsage(usage, Languages.ui({ pl: 'tego uruchomienia', en: 'this run' }));
+    }
+
+    return summary;
   }
 
-  private async runExtractStep(): Promise<void> {
-    const videoFiles = VideoProcessor.getVideoFiles();
+  private async runExtractStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    const videoFiles = VideoProcessor.getVideoFiles()
+      .filter((f) => this.matchesInput(path.basename(f.name, f.ext), options));
 
     if (videoFiles.length === 0) {
-      console.log('ℹ️  Brak plików wideo w folderze upload');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak plików wideo w folderze upload',
+        en: 'ℹ️  No video files in the upload folder',
+      }));
       return;
     }
 
-    console.log(`📊 Znaleziono ${videoFiles.length} plik(ów) wideo\n`);
+    console.log(Languages.ui({
+      pl: `📊 Znaleziono ${videoFiles.length} plik(ów) wideo\n`,
+      en: `📊 Found ${videoFiles.length} video file(s)\n`,
+    }));
 
     for (const videoFile of videoFiles) {
+      const state = PipelineState.load(this.separatedAudioDir, path.basename(videoFile.name, videoFile.ext));
+
       try {
-        await VideoProcessor.processVideo(videoFile);
-        console.log(`✓ Wyekstrahowano audio z: ${videoFile.name}`);
+        await this.runTracked(state, 'extract', [videoFile.path], async () => {
+          const { audioPath, videoPath } = await VideoProcessor.processVideo(videoFile);
+          return [audioPath, videoPath];
+        }, true);
+        console.log(Languages.ui({
+          pl: `✓ Wyekstrahowano audio z: ${videoFile.name}`,
+          en: `✓ Audio extracted from: ${videoFile.name}`,
+        }));
+        summary.processed++;
       } catch (err) {
-        console.error(`✗ Błąd dla ${videoFile.name}: ${err}`);
+        console.error(Languages.ui({
+          pl: `✗ Błąd dla ${videoFile.name}: ${err}`,
+          en: `✗ Error for ${videoFile.name}: ${err}`,
+        }));
+        summary.failed++;
       }
     }
   }
 
-  private async runTranscribeStep(): Promise<void> {
-    const audioFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.mp3', '.wav', '.m4a']);
+  private async runTranscribeStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    const audioFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.mp3', '.wav', '.m4a'])
+      .filter((f) => this.matchesInput(path.basename(f, path.extname(f)), options));
 
     if (audioFiles.length === 0) {
-      console.log('ℹ️  Brak plików audio w folderze separated-audio');
-      console.log('   Najpierw uruchom krok ekstrakcji audio (opcja 2)');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak plików audio w folderze separated-audio',
+        en: 'ℹ️  No audio files in the separated-audio folder',
+      }));
+      console.log(Languages.ui({
+        pl: '   Najpierw uruchom krok ekstrakcji audio (opcja 2)',
+        en: '   Run the audio extraction step first (option 2)',
+      }));
       return;
     }
 
-    console.log(`📊 Znaleziono ${audioFiles.length} plik(ów) audio\n`);
+    console.log(Languages.ui({
+      pl: `📊 Znaleziono ${audioFiles.length} plik(ów) audio\n`,
+      en: `📊 Found ${audioFiles.length} audio file(s)\n`,
+    }));
 
     for (const audioFile of audioFiles) {
       const baseName = path.basename(audioFile, path.extname(audioFile));
       const srtPath = path.join(this.separatedAudioDir, `${baseName}.srt`);
-
-      if (fs.existsSync(srtPath)) {
-        console.log(`⏭ Pominięto ${baseName} - plik SRT już istnieje`);
+      const state = PipelineState.load(this.separatedAudioDir, baseName);
+
+      if (
+        !this.languageChanged(srtPath, options.language) &&
+        (await this.canKeepOutput(state, 'transcribe', [audioFile], srtPath, options))
+      ) {
+        console.log(Languages.ui({
+          pl: `⏭ Pominięto ${baseName} - plik SRT już istnieje`,
+          en: `⏭ Skipped ${baseName} - SRT file already exists`,
+        }));
+        summary.skipped++;
         continue;
       }
 
       try {
-        await Transcriber.transcribeAudio(audioFile, srtPath);
-        console.log(`✓ Transkrypcja ukończona: ${baseName}.srt`);
+        await this.runTracked(state, 'transcribe', [audioFile], async () => {
+          return Transcriber.transcribeAudio(audioFile, srtPath, this.getTranscriptionProvider(), options.language);
+        }, true);
+        console.log(Languages.ui({
+          pl: `✓ Transkrypcja ukończona: ${baseName}.srt`,
+          en: `✓ Transcription complete: ${baseName}.srt`,
+        }));
+        summary.processed++;
       } catch (err) {
-        console.error(`✗ Błąd transkrypcji ${baseName}: ${err}`);
+        console.error(Languages.ui({
+          pl: `✗ Błąd transkrypcji ${baseName}: ${err}`,
+          en: `✗ Transcription error for ${baseName}: ${err}`,
+        }));
+        summary.failed++;
       }
     }
   }
 
-  private async runAnalyzeStep(): Promise<void> {
-    const srtFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.srt']);
+  private async runAnalyzeStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    const srtFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.srt'])
+      .filter((f) => this.matchesInput(path.basename(f, '.srt'), options));
 
     if (srtFiles.length === 0) {
-      console.log('ℹ️  Brak plików SRT w folderze separated-audio');
-      console.log('   Najpierw uruchom krok transkrypcji (opcja 3)');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak plików SRT w folderze separated-audio',
+        en: 'ℹ️  No SRT files in the separated-audio folder',
+      }));
+      console.log(Languages.ui({
+        pl: '   Najpierw uruchom krok transkrypcji (opcja 3)',
+        en: '   Run the transcription step first (option 3)',
+      }));
       return;
     }
 
-    console.log(`📊 Znaleziono ${srtFiles.length} plik(ów) SRT\n`);
+    console.log(Languages.ui({
+      pl: `📊 Znaleziono ${srtFiles.length} plik(ów) SRT\n`,
+      en: `📊 Found ${srtFiles.length} SRT file(s)\n`,
+    }));
 
     for (const srtFile of srtFiles) {
       const baseName = path.basename(srtFile, '.srt');
       const analysisPath = path.join(this.separatedAudioDir, `${baseName}_analysis.json`);
-
-      if (fs.existsSync(analysisPath)) {
-        console.log(`⏭ Pominięto ${baseName} - analiza już istnieje`);
+      const state = PipelineState.load(this.separatedAudioDir, baseName);
+
+      if (await this.canKeepOutput(state, 'analyze', [srtFile], analysisPath, options)) {
+        console.log(Languages.ui({
+          pl: `⏭ Pominięto ${baseName} - analiza już istnieje`,
+          en: `⏭ Skipped ${baseName} - analysis already exists`,
+        }));
+        summary.skipped++;
         continue;
       }
 
       try {
-        const srtContent = Transcriber.readSRT(srtFile);
-        const analysisResult = await ClaudeAnalyzer.analyzeSRT(srtContent, baseName);
-        ClaudeAnalyzer.saveAnalysis(analysisResult, analysisPath);
-        console.log(`✓ Analiza ukończona: ${baseName}_analysis.json`);
+        await this.runTracked(state, 'analyze', [srtFile], async () => {
+          const srtContent = Transcriber.readSRT(srtFile);
+          const analysisResult = await ClaudeAnalyzer.analyzeSRT(
+            srtContent,
+            baseName,
+            Transcriber.getSourceLanguage(srtFile),
+            this.getLlmProvider(),
+          );
+          ClaudeAnalyzer.saveAnalysis(analysisResult, analysisPath);
+          return [analysisPath];
+        }, true);
+        console.log(Languages.ui({
+          pl: `✓ Analiza ukończona: ${baseName}_analysis.json`,
+          en: `✓ Analysis complete: ${baseName}_analysis.json`,
+        }));
+        summary.processed++;
       } catch (err) {
-        console.error(`✗ Błąd analizy ${baseName}: ${err}`);
+        console.error(Languages.ui({
+          pl: `✗ Błąd analizy ${baseName}: ${err}`,
+          en: `✗ Analysis error for ${baseName}: ${err}`,
+        }));
+        summary.failed++;
       }
     }
   }
 
-  private async runOrganizeStep(): Promise<void> {
-    const videoFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.mov', '.mp4', '.avi', '.mkv']);
+  private async runOrganizeStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    const videoFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.mov', '.mp4', '.avi', '.mkv'])
+      .filter((f) => this.matchesInput(path.basename(f, path.extname(f)), options));
     const audioFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.mp3', '.wav', '.m4a']);
     const srtFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.srt']);
 
     if (videoFiles.length === 0 || srtFiles.length === 0) {
-      console.log('ℹ️  Brak wymaganych plików w folderze separated-audio');
-      console.log('   Potrzebne: pliki wideo i SRT');
-      console.log('   Uruchom wcześniejsze kroki najpierw');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak wymaganych plików w folderze separated-audio',
+        en: 'ℹ️  Required files missing in the separated-audio folder',
+      }));
+      console.log(Languages.ui({ pl: '   Potrzebne: pliki wideo i SRT', en: '   Needed: video and SRT files' }));
+      console.log(Languages.ui({ pl: '   Uruchom wcześniejsze kroki najpierw', en: '   Run the earlier steps first' }));
       return;
     }
 
-    console.log(`📊 Znaleziono ${videoFiles.length} wideo, ${audioFiles.length} audio, ${srtFiles.length} SRT\n`);
+    console.log(Languages.ui({
+      pl: `📊 Znaleziono ${videoFiles.length} wideo, ${audioFiles.length} audio, ${srtFiles.length} SRT\n`,
+      en: `📊 Found ${videoFiles.length} video, ${audioFiles.length} audio, ${srtFiles.length} SRT\n`,
+    }));
 
     for (const videoFile of videoFiles) {
       const baseName = path.basename(videoFile, path.extname(videoFile));
@@ -243,81 +629,165 @@ export class Agent {
       const matchingSrt = srtFiles.find(f => path.basename(f, '.srt') === baseName);
 
       if (!matchingAudio || !matchingSrt) {
-        console.log(`⏭ Pominięto ${baseName} - brak pasujących plików audio lub SRT`);
+        console.log(Languages.ui({
+          pl: `⏭ Pominięto ${baseName} - brak pasujących plików audio lub SRT`,
+          en: `⏭ Skipped ${baseName} - no matching audio or SRT file`,
+        }));
+        summary.skipped++;
         continue;
       }
 
+      // Optional - without it there are no chapters, but the platform content is still generated
+      const matchingAnalysis = path.join(this.separatedAudioDir, `${baseName}_analysis.json`);
+      const inputs = [videoFile, matchingAudio, matchingSrt];
+      if (fs.existsSync(matchingAnalysis)) {
+        inputs.push(matchingAnalysis);
+      }
+      const state = PipelineState.load(this.separatedAudioDir, baseName);
+
       try {
-        await FileOrganizer.organizeProjectFiles(videoFile, matchingAudio, matchingSrt);
-        console.log(`✓ Zorganizowano projekt: ${baseName}`);
+        await this.runTracked(state, 'organize', inputs, async () => {
+          const { files } = await FileOrganizer.organizeProjectFiles(
+            videoFile,
+            matchingAudio,
+            matchingSrt,
+            this.getLlmProvider(),
+          );
+          return Object.values(files);
+        }, true);
+        console.log(Languages.ui({
+          pl: `✓ Zorganizowano projekt: ${baseName}`,
+          en: `✓ Project organized: ${baseName}`,
+        }));
+        summary.processed++;
       } catch (err) {
-        console.error(`✗ Błąd organizacji ${baseName}: ${err}`);
+        console.error(Languages.ui({
+          pl: `✗ Błąd organizacji ${baseName}: ${err}`,
+          en: `✗ Organize error for ${baseName}: ${err}`,
+        }));
+        summary.failed++;
       }
     }
   }
 
-  private async runHighlightsStep(): Promise<void> {
-    if (!this.rl) {
-      console.error('✗ Brak interfejsu readline - nie można wybrać highlights');
+  private async runHighlightsStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    if (!this.rl && options.select === undefined) {
+      console.error(Languages.ui({
+        pl: '✗ Brak interfejsu readline - nie można wybrać highlights',
+        en: '✗ No readline interface - cannot select highlights',
+      }));
+      summary.failed++;
       return;
     }
 
-    const srtFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.srt']);
+    const srtFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.srt'])
+      .filter((f) => this.matchesInput(path.basename(f, '.srt'), options));
 
     if (srtFiles.length === 0) {
-      console.log('ℹ️  Brak plików SRT w folderze separated-audio');
-      console.log('   Najpierw uruchom krok transkrypcji (opcja 3)');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak plików SRT w folderze separated-audio',
+        en: 'ℹ️  No SRT files in the separated-audio folder',
+      }));
+      console.log(Languages.ui({
+        pl: '   Najpierw uruchom krok transkrypcji (opcja 3)',
+        en: '   Run the transcription step first (option 3)',
+      }));
       return;
     }
 
-    console.log(`📊 Znaleziono ${srtFiles.length} plik(ów) SRT\n`);
+    console.log(Languages.ui({
+      pl: `📊 Znaleziono ${srtFiles.length} plik(ów) SRT\n`,
+      en: `📊 Found ${srtFiles.length} SRT file(s)\n`,
+    }));
 
     for (const srtFile of srtFiles) {
       const baseName = path.basename(srtFile, '.srt');
       const highlightsPath = path.join(this.separatedAudioDir, `${baseName}_highlights.json`);
 
       if (fs.existsSync(highlightsPath)) {
-        const answer = await this.promptUser(`⚠ Highlights dla ${baseName} już istnieją. Nadpisać? (t/n): `);
-        if (answer.toLowerCase() !== 't' && answer.toLowerCase() !== 'tak') {
-          console.log(`⏭ Pominięto ${baseName}`);
+        const overwrite = await this.confirm(
+          Languages.ui({
+            pl: `⚠ Highlights dla ${baseName} już istnieją. Nadpisać? (t/n): `,
+            en: `⚠ Highlights for ${baseName} already exist. Overwrite? (y/n): `,
+          }),
+          options.overwrite,
+        );
+        if (!overwrite) {
+          console.log(Languages.ui({ pl: `⏭ Pominięto ${baseName}`, en: `⏭ Skipped ${baseName}` }));
+          summary.skipped++;
           continue;
         }
       }
 
       try {
-        const result = await HighlightsSelector.selectHighlights(srtFile, this.rl);
+        const selectOptions: SelectHighlightsOptions = {};
+        if (options.suggest ?? config.highlights.aiSuggestions) selectOptions.llm = this.getLlmProvider();
+        if (options.select !== undefined) selectOptions.selection = options.select;
+        if (options.suggest !== undefined) selectOptions.suggest = options.suggest;
+        if (options.mergeAdjacent !== undefined) selectOptions.mergeAdjacent = options.mergeAdjacent;
+
+        const result = await UsageLedger.track(baseName, () =>
+          HighlightsSelector.selectHighlights(srtFile, this.rl, selectOptions),
+        );
         if (result) {
           HighlightsSelector.saveHighlights(result, highlightsPath);
+          summary.processed++;
+        } else {
+          summary.skipped++;
         }
       } catch (err) {
-        console.error(`✗ Błąd wyboru highlights dla ${baseName}: ${err}`);
+        console.error(Languages.ui({
+          pl: `✗ Błąd wyboru highlights dla ${baseName}: ${err}`,
+          en: `✗ Highlight selection error for ${baseName}: ${err}`,
+        }));
+        summary.failed++;
       }
     }
   }
 
-  private async runCutHighlightsStep(): Promise<void> {
-    const highlightsFiles = this.getFilesWithExtension(this.separatedAudioDir, ['_highlights.json']);
+  private async runCutHighlightsStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    const highlightsFiles = this.getFilesWithExtension(this.separatedAudioDir, ['_highlights.json'])
+      .filter((f) => this.matchesInput(path.basename(f, '_highlights.json'), options));
 
     if (highlightsFiles.length === 0) {
-      console.log('ℹ️  Brak plików highlights w folderze separated-audio');
-      console.log('   Najpierw uruchom krok wyboru highlights (opcja 6)');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak plików highlights w folderze separated-audio',
+        en: 'ℹ️  No highlights files in the separated-audio folder',
+      }));
+      console.log(Languages.ui({
+        pl: '   Najpierw uruchom krok wyboru highlights (opcja 6)',
+        en: '   Run the highlight selection step first (option 6)',
+      }));
       return;
     }
 
     const videoFiles = this.getFilesWithExtension(this.separatedAudioDir, ['.mov', '.mp4', '.avi', '.mkv']);
 
     if (videoFiles.length === 0) {
-      console.log('ℹ️  Brak plików wideo w folderze separated-audio');
-      console.log('   Najpierw uruchom krok ekstrakcji (opcja 2)');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak plików wideo w folderze separated-audio',
+        en: 'ℹ️  No video files in the separated-audio folder',
+      }));
+      console.log(Languages.ui({
+        pl: '   Najpierw uruchom krok ekstrakcji (opcja 2)',
+        en: '   Run the extraction step first (option 2)',
+      }));
       return;
     }
 
-    console.log(`📊 Znaleziono ${highlightsFiles.length} plik(ów) highlights\n`);
+    console.log(Languages.ui({
+      pl: `📊 Znaleziono ${highlightsFiles.length} plik(ów) highlights\n`,
+      en: `📊 Found ${highlightsFiles.length} highlights file(s)\n`,
+    }));
 
     for (const highlightsFile of highlightsFiles) {
       const highlights = HighlightsCutter.loadHighlights(highlightsFile);
       if (!highlights) {
-        console.log(`⏭ Pominięto ${path.basename(highlightsFile)} - nie można wczytać`);
+        console.log(Languages.ui({
+          pl: `⏭ Pominięto ${path.basename(highlightsFile)} - nie można wczytać`,
+          en: `⏭ Skipped ${path.basename(highlightsFile)} - cannot be read`,
+        }));
+        summary.skipped++;
         continue;
       }
 
@@ -328,7 +798,11 @@ export class Agent {
       });
 
       if (!videoFile) {
-        console.log(`⏭ Pominięto ${highlights.videoName} - brak pasującego pliku wideo`);
+        console.log(Languages.ui({
+          pl: `⏭ Pominięto ${highlights.videoName} - brak pasującego pliku wideo`,
+          en: `⏭ Skipped ${highlights.videoName} - no matching video file`,
+        }));
+        summary.skipped++;
         continue;
       }
 
@@ -337,45 +811,102 @@ export class Agent {
       const outputDir = path.join(this.readyVideoDir, `${highlights.videoName}_${timestamp}`);
 
       try {
-        const results = await HighlightsCutter.cutHighlights(videoFile, highlights, outputDir);
-        console.log(`✓ Wycięto ${results.length} klipów dla: ${highlights.videoName}`);
+        let toCut = highlights;
+        if (!BoundaryRefiner.isRefined(toCut)) {
+          // Silence detection on the extracted audio is much cheaper than on the video
+          const audioFile = path.join(this.separatedAudioDir, `${highlights.videoName}.mp3`);
+          toCut = await BoundaryRefiner.refine(
+            toCut,
+            fs.existsSync(audioFile) ? audioFile : videoFile,
+          );
+          // Stored in the highlights file so the next cut uses the same times
+          HighlightsSelector.saveHighlights(toCut, highlightsFile);
+        }
+
+        const cutOptions: CutOptions = {};
+        if (options.loudness !== undefined) cutOptions.loudnessPreset = options.loudness;
+        if (options.music !== undefined) cutOptions.music = options.music;
+
+        const results = await HighlightsCutter.cutHighlights(videoFile, toCut, outputDir, cutOptions);
+        console.log(Languages.ui({
+          pl: `✓ Wycięto ${results.length} klipów dla: ${highlights.videoName}`,
+          en: `✓ Cut ${results.length} clips for: ${highlights.videoName}`,
+        }));
+        if (results.length < highlights.highlights.length) {
+          summary.failed++;
+        } else {
+          summary.processed++;
+        }
       } catch (err) {
-        console.error(`✗ Błąd wycinania highlights dla ${highlights.videoName}: ${err}`);
+        console.error(Languages.ui({
+          pl: `✗ Błąd wycinania highlights dla ${highlights.videoName}: ${err}`,
+          en: `✗ Error cutting highlights for ${highlights.videoName}: ${err}`,
+        }));
+        summary.failed++;
       }
     }
   }
 
-  private async runApproveHighlightsStep(): Promise<void> {
-    if (!this.rl) {
-      console.error('✗ Brak interfejsu readline - nie można zatwierdzić highlights');
+  private async runApproveHighlightsStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    if (!this.rl && options.select === undefined) {
+      console.error(Languages.ui({
+        pl: '✗ Brak interfejsu readline - nie można zatwierdzić highlights',
+        en: '✗ No readline interface - cannot approve highlights',
+      }));
+      summary.failed++;
       return;
     }
 
     const highlightFolders = ApprovedHighlightsSelector.findHighlightFolders(this.readyVideoDir);
 
     if (highlightFolders.length === 0) {
-      console.log('ℹ️  Brak folderów z highlights w ready-video');
-      console.log('   Najpierw uruchom krok wycinania highlights (opcja 7)');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak folderów z highlights w ready-video',
+        en: 'ℹ️  No highlights folders in ready-video',
+      }));
+      console.log(Languages.ui({
+        pl: '   Najpierw uruchom krok wycinania highlights (opcja 7)',
+        en: '   Run the highlight cutting step first (option 7)',
+      }));
       return;
     }
 
-    console.log(`📊 Znaleziono ${highlightFolders.length} folder(ów) z highlights\n`);
+    console.log(Languages.ui({
+      pl: `📊 Znaleziono ${highlightFolders.length} folder(ów) z highlights\n`,
+      en: `📊 Found ${highlightFolders.length} highlights folder(s)\n`,
+    }));
 
     for (const folder of highlightFolders) {
       const metadata = ApprovedHighlightsSelector.loadMetadata(folder);
       if (!metadata) {
-        console.log(`⏭ Pominięto ${path.basename(folder)} - brak metadanych`);
+        console.log(Languages.ui({
+          pl: `⏭ Pominięto ${path.basename(folder)} - brak metadanych`,
+          en: `⏭ Skipped ${path.basename(folder)} - no metadata`,
+        }));
+        summary.skipped++;
+        continue;
+      }
+
+      if (!this.matchesInput(metadata.videoName, options)) {
         continue;
       }
 
       const approvedPath = path.join(folder, 'highlights', 'approved_highlights.json');
+      let previousTemplate: string | undefined;
 
       if (fs.existsSync(approvedPath)) {
-        const answer = await this.promptUser(
-          `⚠ Zatwierdzone highlights dla ${metadata.videoName} już istnieją. Nadpisać? (t/n): `,
+        previousTemplate = (JSON.parse(fs.readFileSync(approvedPath, 'utf-8')) as ApprovedHighlights).template;
+
+        const overwrite = await this.confirm(
+          Languages.ui({
+            pl: `⚠ Zatwierdzone highlights dla ${metadata.videoName} już istnieją. Nadpisać? (t/n): `,
+            en: `⚠ Approved highlights for ${metadata.videoName} already exist. Overwrite? (y/n): `,
+          }),
+          options.overwrite,
         );
-        if (answer.toLowerCase() !== 't' && answer.toLowerCase() !== 'tak') {
-          console.log(`⏭ Pominięto ${metadata.videoName}`);
+        if (!overwrite) {
+          console.log(Languages.ui({ pl: `⏭ Pominięto ${metadata.videoName}`, en: `⏭ Skipped ${metadata.videoName}` }));
+          summary.skipped++;
           continue;
         }
       }
@@ -385,44 +916,91 @@ export class Agent {
           folder,
           metadata,
           this.rl,
+          options.select,
         );
         if (result) {
+          // Re-approving keeps the project's template choice
+          const template = options.template ?? previousTemplate;
+          if (template) {
+            result.template = template;
+          }
           ApprovedHighlightsSelector.saveApprovedHighlights(result, approvedPath);
+          summary.processed++;
+        } else {
+          summary.skipped++;
         }
       } catch (err) {
-        console.error(`✗ Błąd zatwierdzania highlights dla ${metadata.videoName}: ${err}`);
+        console.error(Languages.ui({
+          pl: `✗ Błąd zatwierdzania highlights dla ${metadata.videoName}: ${err}`,
+          en: `✗ Error approving highlights for ${metadata.videoName}: ${err}`,
+        }));
+        summary.failed++;
       }
     }
   }
 
-  private async runAssembleFullStep(): Promise<void> {
-    const approvedItems = FullVideoAssembler.findApprovedHighlights(this.readyVideoDir);
+  private async runAssembleFullStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    const approvedItems = FullVideoAssembler.findApprovedHighlights(this.readyVideoDir)
+      .filter((item) => this.matchesInput(item.approved.videoName, options));
 
     if (approvedItems.length === 0) {
-      console.log('ℹ️  Brak zatwierdzonych highlights w ready-video');
-      console.log('   Najpierw uruchom krok zatwierdzania highlights (opcja 8)');
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak zatwierdzonych highlights w ready-video',
+        en: 'ℹ️  No approved highlights in ready-video',
+      }));
+      console.log(Languages.ui({
+        pl: '   Najpierw uruchom krok zatwierdzania highlights (opcja 8)',
+        en: '   Run the highlight approval step first (option 8)',
+      }));
       return;
     }
 
-    // Check for intro file
-    let introPath: string | null = null;
-    const introFile = this.findIntroFile();
+    // Intro override: undefined lets the template decide, null drops intro elements
+    let introOverride: string | null | undefined;
 
-    if (introFile) {
-      console.log(`🎬 Znaleziono intro: ${path.basename(introFile)}`);
-      const answer = await this.promptUser('Czy domontować intro? (t/n): ');
-      if (answer.toLowerCase() === 't' || answer.toLowerCase() === 'tak') {
-        introPath = introFile;
-        console.log('✓ Intro zostanie dodane po highlights\n');
+    if (options.intro !== undefined && options.intro !== 'auto') {
+      if (options.intro === 'none') {
+        introOverride = null;
       } else {
-        console.log('⏭ Intro pominięte\n');
+        if (!fs.existsSync(options.intro)) {
+          console.error(Languages.ui({
+            pl: `✗ Plik intro nie istnieje: ${options.intro}`,
+            en: `✗ Intro file does not exist: ${options.intro}`,
+          }));
+          summary.failed++;
+          return;
+        }
+        introOverride = path.resolve(options.intro);
+        console.log(Languages.ui({
+          pl: `✓ Intro z pliku: ${path.basename(introOverride)}\n`,
+          en: `✓ Intro from file: ${path.basename(introOverride)}\n`,
+        }));
+      }
+    } else if (options.intro === undefined) {
+      const introFile = AssetLibrary.find('intro');
+
+      if (introFile) {
+        console.log(Languages.ui({
+          pl: `🎬 Znaleziono intro: ${path.basename(introFile)}`,
+          en: `🎬 Found intro: ${path.basename(introFile)}`,
+        }));
+        // Either way the answer decides - a template without an intro element must not drop a confirmed one
+        if (await this.confirm(Languages.ui({ pl: 'Czy domontować intro? (t/n): ', en: 'Add the intro? (y/n): ' }))) {
+          introOverride = introFile;
+        } else {
+          introOverride = null;
+          console.log(Languages.ui({ pl: '⏭ Intro pominięte\n', en: '⏭ Intro skipped\n' }));
+        }
       }
     }
 
-    console.log(`📊 Znaleziono ${approvedItems.length} zatwierdzonych highlights\n`);
+    console.log(Languages.ui({
+      pl: `📊 Znaleziono ${approvedItems.length} zatwierdzonych highlights\n`,
+      en: `📊 Found ${approvedItems.length} approved highlights\n`,
+    }));
 
     for (const item of approvedItems) {
-      const { approved, folder } = item;
+      const { approved, folder, approvedPath } = item;
 
       // Find original video
       const originalVideo = FullVideoAssembler.findOriginalVideo(
@@ -431,50 +1009,190 @@ export class Agent {
       );
 
       if (!originalVideo) {
-        console.log(`⏭ Pominięto ${approved.videoName} - brak oryginalnego wideo`);
+        console.log(Languages.ui({
+          pl: `⏭ Pominięto ${approved.videoName} - brak oryginalnego wideo`,
+          en: `⏭ Skipped ${approved.videoName} - original video missing`,
+        }));
+        summary.skipped++;
         continue;
       }
 
       const outputDir = path.join(folder, 'complete');
 
       try {
+        // --template wins and is remembered by the project; otherwise the project's own choice
+        const templateName = options.template ?? approved.template ?? config.assembly.template;
+        const template = AssemblyTemplates.load(templateName);
+        if (options.template && approved.template !== options.template) {
+          ApprovedHighlightsSelector.saveApprovedHighlights({ ...approved, template: options.template }, approvedPath);
+        }
+
+        const assembleOptions: AssembleOptions = { template, introOverride };
+        if (options.loudness !== undefined) assembleOptions.loudnessPreset = options.loudness;
+        if (options.music !== undefined) assembleOptions.music = options.music;
+
+        const analysis = ClaudeAnalyzer.loadAnalysis(
+          path.join(this.separatedAudioDir, `${approved.videoName}_analysis.json`),
+        );
+        if (analysis?.chapters?.length) assembleOptions.chapters = analysis.chapters;
+
         const result = await FullVideoAssembler.assembleFullVideo(
           approved,
           originalVideo,
           outputDir,
-          introPath,
+          assembleOptions,
         );
 
-        console.log(`\n✓ Pełny film utworzony: ${path.basename(result.outputPath)}`);
-        console.log(`  Klipy highlights: ${result.highlightsCount}`);
-        if (result.introDuration) {
-          console.log(`  Czas intro: ${result.introDuration}`);
+        console.log(Languages.ui({
+          pl: `\n✓ Pełny film utworzony: ${path.basename(result.outputPath)}`,
+          en: `\n✓ Full video created: ${path.basename(result.outputPath)}`,
+        }));
+        console.log(Languages.ui({ pl: `  Szablon: ${result.template}`, en: `  Template: ${result.template}` }));
+        console.log(Languages.ui({
+          pl: `  Klipy highlights: ${result.highlightsCount}`,
+          en: `  Highlight clips: ${result.highlightsCount}`,
+        }));
+        if (result.assetsDuration) {
+          console.log(Languages.ui({
+            pl: `  Czas dodatków (intro/outro/bumpery): ${result.assetsDuration}`,
+            en: `  Assets duration (intro/outro/bumpers): ${result.assetsDuration}`,
+          }));
+        }
+        console.log(Languages.ui({
+          pl: `  Czas highlights: ${result.highlightsDuration}`,
+          en: `  Highlights duration: ${result.highlightsDuration}`,
+        }));
+        console.log(Languages.ui({
+          pl: `  Czas oryginału: ${result.originalDuration}`,
+          en: `  Original duration: ${result.originalDuration}`,
+        }));
+        if (result.transitionsDuration) {
+          console.log(Languages.ui({
+            pl: `  Nakładanie przejść: -${result.transitionsDuration}`,
+            en: `  Transition overlap: -${result.transitionsDuration}`,
+          }));
         }
-        console.log(`  Czas highlights: ${result.highlightsDuration}`);
-        console.log(`  Czas oryginału: ${result.originalDuration}`);
-        console.log(`  Razem: ${result.totalDuration}`);
+        if (result.chaptersCount) {
+          console.log(Languages.ui({
+            pl: `  Rozdziały MP4: ${result.chaptersCount}`,
+            en: `  MP4 chapters: ${result.chaptersCount}`,
+          }));
+        }
+        if (analysis?.chapters?.length) {
+          // The description has to list the chapters the assembled MP4 carries, not the original's
+          const updated = FileOrganizer.replaceChapters(folder, result.chapters ?? []);
+          for (const file of updated) {
+            console.log(Languages.ui({
+              pl: `  Rozdziały w ${path.basename(file)} przesunięte jak w filmie`,
+              en: `  Chapters in ${path.basename(file)} shifted to match the video`,
+            }));
+          }
+        }
+        console.log(Languages.ui({ pl: `  Razem: ${result.totalDuration}`, en: `  Total: ${result.totalDuration}` }));
+        summary.processed++;
       } catch (err) {
-        console.error(`✗ Błąd składania filmu ${approved.videoName}: ${err}`);
+        console.error(Languages.ui({
+          pl: `✗ Błąd składania filmu ${approved.videoName}: ${err}`,
+          en: `✗ Error assembling video ${approved.videoName}: ${err}`,
+        }));
+        summary.failed++;
       }
     }
   }
 
-  private findIntroFile(): string | null {
-    if (!fs.existsSync(this.introDir)) {
-      return null;
+  private async runThumbnailsStep(options: StepOptions, summary: StepSummary): Promise<void> {
+    // Organized projects: the copied original video next to its platform files
+    const youtubeFile = ThumbnailGenerator.getYouTubeFileName();
+    const projectFolders = fs.existsSync(this.readyVideoDir)
+      ? fs.readdirSync(this.readyVideoDir)
+        .map((entry) => path.join(this.readyVideoDir, entry))
+        .filter((folder) => fs.existsSync(path.join(folder, youtubeFile)))
+        .sort()
+      : [];
+
+    if (projectFolders.length === 0) {
+      console.log(Languages.ui({
+        pl: 'ℹ️  Brak zorganizowanych projektów w ready-video',
+        en: 'ℹ️  No organized projects in ready-video',
+      }));
+      console.log(Languages.ui({
+        pl: '   Najpierw uruchom krok organizacji plików (opcja 5)',
+        en: '   Run the organize step first (option 5)',
+      }));
+      return;
     }
 
-    const videoExtensions = ['.mov', '.mp4', '.avi', '.mkv'];
-    const files = fs.readdirSync(this.introDir);
+    const highlightFolders = ApprovedHighlightsSelector.findHighlightFolders(this.readyVideoDir).sort();
 
-    for (const file of files) {
-      const ext = path.extname(file).toLowerCase();
-      if (videoExtensions.includes(ext)) {
-        return path.join(this.introDir, file);
+    for (const projectFolder of projectFolders) {
+      const videoFile = this.getFilesWithExtension(projectFolder, ['.mov', '.mp4', '.avi', '.mkv'])[0];
+      if (!videoFile) {
+        console.log(Languages.ui({
+          pl: `⏭ Pominięto ${path.basename(projectFolder)} - brak wideo w projekcie`,
+          en: `⏭ Skipped ${path.basename(projectFolder)} - no video in the project`,
+        }));
+        summary.skipped++;
+        continue;
       }
-    }
 
-    return null;
+      const videoName = path.basename(videoFile, path.extname(videoFile));
+      if (!this.matchesInput(videoName, options)) {
+        continue;
+      }
+
+      const outputDir = path.join(projectFolder, 'thumbnails');
+      if (fs.existsSync(outputDir)) {
+        const overwrite = await this.confirm(
+          Languages.ui({
+            pl: `⚠ Miniatury dla ${videoName} już istnieją. Nadpisać? (t/n): `,
+            en: `⚠ Thumbnails for ${videoName} already exist. Overwrite? (y/n): `,
+          }),
+          options.overwrite,
+        );
+        if (!overwrite) {
+          console.log(Languages.ui({ pl: `⏭ Pominięto ${videoName}`, en: `⏭ Skipped ${videoName}` }));
+          summary.skipped++;
+          continue;
+        }
+        fs.rmSync(outputDir, { recursive: true });
+      }
+
+      const sources: ThumbnailSource[] = [
+        { name: 'original', file: videoFile, count: config.thumbnails.candidates },
+      ];
+
+      // Clips from the most recent cut of this video
+      const highlightsFolder = highlightFolders
+        .filter((folder) => ApprovedHighlightsSelector.loadMetadata(folder)?.videoName === videoName)
+        .pop();
+      if (highlightsFolder) {
+        for (const clip of ApprovedHighlightsSelector.loadMetadata(highlightsFolder)!.clips) {
+          const clipPath = path.join(highlightsFolder, 'highlights', clip.file);
+          if (fs.existsSync(clipPath)) {
+            sources.push({ name: `clip-${clip.id}`, file: clipPath, count: config.thumbnails.candidatesPerClip });
+          }
+        }
+      }
+
+      try {
+        const result = await ThumbnailGenerator.generateThumbnails(
+          sources,
+          ThumbnailGenerator.findTitle(projectFolder),
+          outputDir,
+        );
+        console.log(Languages.ui({
+          pl: `✓ Utworzono ${result.candidates.length} kandydatów miniatur dla: ${videoName}`,
+          en: `✓ Created ${result.candidates.length} thumbnail candidates for: ${videoName}`,
+        }));
+        summary.processed++;
+      } catch (err) {
+        console.error(Languages.ui({
+          pl: `✗ Błąd generowania miniatur dla ${videoName}: ${err}`,
+          en: `✗ Error generating thumbnails for ${videoName}: ${err}`,
+        }));
+        summary.failed++;
+      }
+    }
   }
 
   private promptUser(question: string): Promise<string> {
@@ -489,6 +1207,30 @@ export class Agent {
     });
   }
 
+  /**
+   * Resolve a yes/no question: a preset answer wins, otherwise ask via readline.
+   * Without readline and without a preset the answer is "no".
+   */
+  private async confirm(question: string, preset?: boolean): Promise<boolean> {
+    if (preset !== undefined) {
+      return preset;
+    }
+
+    const answer = (await this.promptUser(question)).toLowerCase();
+    return ['t', 'tak', 'y', 'yes'].includes(answer);
+  }
+
+  private matchesInput(baseName: string, options: StepOptions): boolean {
+    if (!options.input) {
+      return true;
+    }
+
+    const inputName = path.basename(options.input);
+    const matches = inputName === baseName || path.basename(inputName, path.extname(inputName)) === baseName;
+    this.inputMatched ||= matches;
+    return matches;
+  }
+
   private getFilesWithExtension(dir: string, extensions: string[]): string[] {
     if (!fs.existsSync(dir)) {
       return [];
@@ -500,8 +1242,96 @@ export class Agent {
       .map(file => path.join(dir, file));
   }
 
+  /**
+   * Inspect or clean the Whisper/Claude cache. invalidate: `filter` is a kind
+   * (transcription | claude), a video name or a key prefix - asked for in the menu,
+   * none removes everything. prune: `filter` is the age in days (default: config.cache.maxAgeDays).
+   */
+  async cache(action: CacheAction, filter?: string): Promise<void> {
+    switch (action) {
+      case 'list': {
+        const entries = ResponseCache.list();
+        console.log(`💾 Cache: ${path.relative(process.cwd(), config.cache.dir) || '.'}/` +
+          (config.cache.enabled ? '' : Languages.ui({
+            pl: ' (wyłączony - CACHE_ENABLED=false)',
+            en: ' (disabled - CACHE_ENABLED=false)',
+          })));
+
+        for (const entry of entries) {
+          console.log(`  [${entry.kind}] ${entry.label} - ${this.formatSize(entry.sizeBytes)}, ` +
+            Languages.ui({
+              pl: `użyty ${entry.lastUsedAt.slice(0, 16).replace('T', ' ')} (${entry.key.slice(0, 12)})`,
+              en: `used ${entry.lastUsedAt.slice(0, 16).replace('T', ' ')} (${entry.key.slice(0, 12)})`,
+            }));
+        }
+        for (const kind of CACHE_KINDS) {
+          const ofKind = entries.filter((e) => e.kind === kind);
+          const size = this.formatSize(ofKind.reduce((sum, e) => sum + e.sizeBytes, 0));
+          console.log(Languages.ui({
+            pl: `📊 ${kind}: ${ofKind.length} wpisów, ${size}`,
+            en: `📊 ${kind}: ${ofKind.length} entries, ${size}`,
+          }));
+        }
+        break;
+      }
+
+      case 'invalidate': {
+        if (filter === undefined && this.rl) {
+          filter = (await this.promptUser(Languages.ui({
+            pl: `Film, rodzaj (${CACHE_KINDS.join('/')}) lub początek klucza (Enter = wszystko): `,
+            en: `Video, kind (${CACHE_KINDS.join('/')}) or key prefix (Enter = everything): `,
+          }))) || undefined;
+          if (!(await this.confirm(Languages.ui({
+            pl: `⚠ Usunąć ${filter ? `wpisy pasujące do "${filter}"` : 'cały cache'}? (t/n): `,
+            en: `⚠ Remove ${filter ? `entries matching "${filter}"` : 'the whole cache'}? (y/n): `,
+          })))) {
+            console.log(Languages.ui({ pl: '⏭ Anulowano', en: '⏭ Cancelled' }));
+            return;
+          }
+        }
+
+        const removed = (CACHE_KINDS as string[]).includes(filter ?? '')
+          ? ResponseCache.invalidate({ kind: filter as CacheKind })
+          : ResponseCache.invalidate(filter ? { match: filter } : {});
+        this.printRemovedCacheEntries(removed);
+        break;
+      }
+
+      case 'prune': {
+        const days = filter === undefined ? config.cache.maxAgeDays : Number(filter);
+        if (!Number.isFinite(days) || days < 0) {
+          throw new Error(Languages.ui({
+            pl: `Nieprawidłowa liczba dni: ${filter}`,
+            en: `Invalid number of days: ${filter}`,
+          }));
+        }
+        console.log(Languages.ui({
+          pl: `🧹 Usuwanie wpisów cache nieużywanych od ${days} dni`,
+          en: `🧹 Removing cache entries unused for ${days} days`,
+        }));
+        this.printRemovedCacheEntries(ResponseCache.prune(days));
+        break;
+      }
+    }
+  }
+
+  private printRemovedCacheEntries(removed: CacheEntryInfo[]): void {
+    for (const entry of removed) {
+      console.log(`  ✗ [${entry.kind}] ${entry.label}`);
+    }
+    const size = this.formatSize(removed.reduce((sum, e) => sum + e.sizeBytes, 0));
+    console.log(Languages.ui({
+      pl: `✓ Usunięto ${removed.length} wpisów cache (${size})`,
+      en: `✓ Removed ${removed.length} cache entries (${size})`,
+    }));
+  }
+
+  private formatSize(bytes: number): string {
+    return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
   async clean(type: CleanType): Promise<void> {
-    console.log(`🧹 Czyszczenie: ${type}\n`);
+    console.log(Languages.ui({ pl: `🧹 Czyszczenie: ${type}\n`, en: `🧹 Cleaning: ${type}\n` }));
 
     const dirsToClean: string[] = [];
 
@@ -534,9 +1364,15 @@ export class Agent {
           count++;
         }
 
-        console.log(`✓ Wyczyszczono ${path.basename(dir)}/ (${count} elementów)`);
+        console.log(Languages.ui({
+          pl: `✓ Wyczyszczono ${path.basename(dir)}/ (${count} elementów)`,
+          en: `✓ Cleaned ${path.basename(dir)}/ (${count} items)`,
+        }));
       } else {
-        console.log(`ℹ️  Folder ${path.basename(dir)}/ nie istnieje`);
+        console.log(Languages.ui({
+          pl: `ℹ️  Folder ${path.basename(dir)}/ nie istnieje`,
+          en: `ℹ️  Folder ${path.basename(dir)}/ does not exist`,
+        }));
       }
     }
   }
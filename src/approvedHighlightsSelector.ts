@@ -1,12 +1,19 @@
 import fs from 'fs';
 import path from 'path';
 import readline from 'readline';
+import { Languages } from './languages';
+import { LoudnessReport } from './loudnessNormalizer';
+import { MusicBedInfo } from './musicBed';
 
 export interface HighlightClip {
   id: number;
   file: string;
   duration: string;
   text: string;
+  /** SRT segments the clip was cut from */
+  sourceSegmentIds?: number[];
+  loudness?: LoudnessReport;
+  music?: MusicBedInfo;
 }
 
 export interface HighlightsMetadata {
@@ -22,6 +29,8 @@ export interface ApprovedHighlights {
   approvedAt: string;
   clips: HighlightClip[];
   order: number[];
+  /** Assembly template chosen for this project */
+  template?: string;
 }
 
 export class ApprovedHighlightsSelector {
@@ -59,46 +68,46 @@ export class ApprovedHighlightsSelector {
   static async selectApprovedHighlights(
     folderPath: string,
     metadata: HighlightsMetadata,
-    rl: readline.Interface,
+    rl: readline.Interface | null,
+    selection?: string,
   ): Promise<ApprovedHighlights | null> {
-    console.log(`\n✅ Wybierz zatwierdzone highlights dla: ${metadata.videoName}`);
-    console.log('─'.repeat(60));
-    console.log('Dostępne klipy:\n');
-
-    for (let i = 0; i < metadata.clips.length; i++) {
-      const clip = metadata.clips[i];
-      console.log(`  ${(i + 1).toString().padStart(2)}. [ID: ${clip.id}] ${clip.duration}`);
-      console.log(`      "${clip.text.substring(0, 70)}${clip.text.length > 70 ? '...' : ''}"`);
-      console.log(`      Plik: ${clip.file}\n`);
+    let answer: string;
+
+    if (selection !== undefined) {
+      console.log(Languages.ui({
+        pl: `\n✅ Zatwierdzone highlights dla: ${metadata.videoName} (wybór: ${selection})`,
+        en: `\n✅ Approved highlights for: ${metadata.videoName} (selection: ${selection})`,
+      }));
+      answer = selection.trim();
+    } else if (rl) {
+      answer = await this.promptForSelection(rl, metadata);
+    } else {
+      throw new Error(Languages.ui({
+        pl: 'Brak wyboru klipów i interfejsu readline',
+        en: 'No clip selection and no readline interface',
+      }));
     }
 
-    console.log('─'.repeat(60));
-    console.log('Instrukcje:');
-    console.log('  - Wpisz numery klipów w kolejności do filmu (np. 2,1,3)');
-    console.log('  - Kolejność ma znaczenie - określa porządek w filmie końcowym');
-    console.log('  - Wpisz "all" aby wybrać wszystkie w oryginalnej kolejności');
-    console.log('  - Wpisz "skip" aby pominąć');
-    console.log('');
-
-    const answer = await this.prompt(rl, 'Twój wybór (w kolejności): ');
-
     if (answer.toLowerCase() === 'skip') {
-      console.log('⏭ Pominięto');
+      console.log(Languages.ui({ pl: '⏭ Pominięto', en: '⏭ Skipped' }));
       return null;
     }
 
     const selectedIndices = this.parseSelection(answer, metadata.clips.length);
 
     if (selectedIndices.length === 0) {
-      console.log('⚠ Nie wybrano żadnych klipów');
+      console.log(Languages.ui({ pl: '⚠ Nie wybrano żadnych klipów', en: '⚠ No clips selected' }));
       return null;
     }
 
     const approvedClips = selectedIndices.map((idx) => metadata.clips[idx - 1]);
     const order = selectedIndices;
 
-    console.log(`\n✓ Wybrano ${approvedClips.length} klip(ów) do filmu końcowego`);
-    console.log('Kolejność w filmie:');
+    console.log(Languages.ui({
+      pl: `\n✓ Wybrano ${approvedClips.length} klip(ów) do filmu końcowego`,
+      en: `\n✓ Selected ${approvedClips.length} clip(s) for the final video`,
+    }));
+    console.log(Languages.ui({ pl: 'Kolejność w filmie:', en: 'Order in the video:' }));
     approvedClips.forEach((clip, i) => {
       console.log(`  ${i + 1}. [ID: ${clip.id}] ${clip.text.substring(0, 50)}...`);
     });
@@ -112,6 +121,47 @@ export class ApprovedHighlightsSelector {
     };
   }
 
+  private static promptForSelection(
+    rl: readline.Interface,
+    metadata: HighlightsMetadata,
+  ): Promise<string> {
+    console.log(Languages.ui({
+      pl: `\n✅ Wybierz zatwierdzone highlights dla: ${metadata.videoName}`,
+      en: `\n✅ Select approved highlights for: ${metadata.videoName}`,
+    }));
+    console.log('─'.repeat(60));
+    console.log(Languages.ui({ pl: 'Dostępne klipy:\n', en: 'Available clips:\n' }));
+
+    for (let i = 0; i < metadata.clips.length; i++) {
+      const clip = metadata.clips[i];
+      console.log(`  ${(i + 1).toString().padStart(2)}. [ID: ${clip.id}] ${clip.duration}`);
+      console.log(`      "${clip.text.substring(0, 70)}${clip.text.length > 70 ? '...' : ''}"`);
+      console.log(`      ${Languages.ui({ pl: 'Plik', en: 'File' })}: ${clip.file}\n`);
+    }
+
+    console.log('─'.repeat(60));
+    const instructions = Languages.ui({
+      pl: [
+        'Instrukcje:',
+        '  - Wpisz numery klipów w kolejności do filmu (np. 2,1,3)',
+        '  - Kolejność ma znaczenie - określa porządek w filmie końcowym',
+        '  - Wpisz "all" aby wybrać wszystkie w oryginalnej kolejności',
+        '  - Wpisz "skip" aby pominąć',
+      ].join('\n'),
+      en: [
+        'Instructions:',
+        '  - Enter clip numbers in the order they go into the video (e.g. 2,1,3)',
+        '  - Order matters - it sets the sequence in the final video',
+        '  - Enter "all" to select all of them in the original order',
+        '  - Enter "skip" to skip',
+      ].join('\n'),
+    });
+    console.log(instructions);
+    console.log('');
+
+    return this.prompt(rl, Languages.ui({ pl: 'Twój wybór (w kolejności): ', en: 'Your selection (in order): ' }));
+  }
+
   private static parseSelection(input: string, maxIndex: number): number[] {
     if (input.toLowerCase() === 'all') {
       return Array.from({ length: maxIndex }, (_, i) => i + 1);
@@ -146,7 +196,10 @@ export class ApprovedHighlightsSelector {
     outputPath: string,
   ): void {
     fs.writeFileSync(outputPath, JSON.stringify(result, null, 2), 'utf-8');
-    console.log(`✓ Zatwierdzone highlights zapisane: ${path.basename(outputPath)}`);
+    console.log(Languages.ui({
+      pl: `✓ Zatwierdzone highlights zapisane: ${path.basename(outputPath)}`,
+      en: `✓ Approved highlights saved: ${path.basename(outputPath)}`,
+    }));
   }
 
   static loadApprovedHighlights(filePath: string): ApprovedHighlights | null {
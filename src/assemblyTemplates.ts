@@ -0,0 +1,317 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+
+export type AssetKind = 'intro' | 'outro' | 'bumper' | 'endcard';
+
+export const ASSET_KINDS: AssetKind[] = ['intro', 'outro', 'bumper', 'endcard'];
+
+export type TimelineElementType = 'highlights' | 'original' | AssetKind;
+
+/**
+ * Transition as written in a template or config: any ffmpeg xfade transition name,
+ * one of the aliases below, or 'cut' for none
+ */
+export interface TransitionSpec {
+  type: string;
+  /** Seconds; default: config.assembly.transition.duration */
+  duration?: number;
+}
+
+export interface Transition {
+  /** xfade transition name */
+  type: string;
+  duration: number;
+}
+
+const TRANSITION_ALIASES: Record<string, string> = {
+  crossfade: 'fade',
+  'fade-through-black': 'fadeblack',
+  'fade-through-white': 'fadewhite',
+  wipe: 'wipeleft',
+  slide: 'slideleft',
+};
+
+const XFADE_TRANSITIONS = [
+  'fade', 'fadeblack', 'fadewhite', 'fadegrays', 'dissolve', 'distance', 'pixelize', 'radial', 'hblur',
+  'wipeleft', 'wiperight', 'wipeup', 'wipedown', 'wipetl', 'wipetr', 'wipebl', 'wipebr',
+  'slideleft', 'slideright', 'slideup', 'slidedown',
+  'smoothleft', 'smoothright', 'smoothup', 'smoothdown',
+  'circlecrop', 'rectcrop', 'circleopen', 'circleclose',
+  'vertopen', 'vertclose', 'horzopen', 'horzclose',
+  'diagtl', 'diagtr', 'diagbl', 'diagbr',
+  'hlslice', 'hrslice', 'vuslice', 'vdslice', 'squeezeh', 'squeezev',
+];
+
+export interface TimelineElement {
+  type: TimelineElementType;
+  /** Asset name (file name without extension) from the library; default: first file of the kind */
+  asset?: string;
+  /** Skip the element instead of failing when the asset is missing */
+  optional?: boolean;
+  /** highlights only: bumper asset played between consecutive clips */
+  bumper?: string;
+  /** Transition from the previous element into this one (default: template's defaultTransition) */
+  transition?: TransitionSpec;
+  /** highlights only: transition between consecutive clips (and around bumpers) */
+  clipTransition?: TransitionSpec;
+}
+
+export interface AssemblyTemplate {
+  name: string;
+  description?: string;
+  /** Used where an element sets no transition (default: config.assembly.transition) */
+  defaultTransition?: TransitionSpec;
+  timeline: TimelineElement[];
+}
+
+export interface TimelineItem {
+  type: TimelineElementType;
+  file: string;
+  /** Highlight clip id, for highlights items */
+  clipId?: number;
+  /** Transition from the previous item; none means a hard cut */
+  transition?: Transition;
+}
+
+export interface TimelineSources {
+  clips: Array<{ id: number; file: string }>;
+  originalPath: string;
+  /**
+   * undefined: template decides, null: drop intro elements, path: use this file as the intro
+   * (added before the original when the template has no intro element)
+   */
+  introOverride?: string | null | undefined;
+}
+
+const VIDEO_EXTENSIONS = ['.mov', '.mp4', '.avi', '.mkv'];
+
+// Same order as before templates existed: highlights, optional intro, full original
+const DEFAULT_TEMPLATE: AssemblyTemplate = {
+  name: 'default',
+  description: 'Highlights, intro (jeśli jest), pełny oryginał',
+  timeline: [
+    { type: 'highlights' },
+    { type: 'intro', optional: true },
+    { type: 'original' },
+  ],
+};
+
+/**
+ * Named video assets in additional/<kind>/ - the asset name is the file name without extension
+ */
+export class AssetLibrary {
+  static getDir(kind: AssetKind): string {
+    return path.join(config.assembly.assetsDir, kind);
+  }
+
+  static list(kind: AssetKind): Array<{ name: string; path: string }> {
+    const dir = this.getDir(kind);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(dir)
+      .filter((file) => VIDEO_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .sort()
+      .map((file) => ({ name: path.basename(file, path.extname(file)), path: path.join(dir, file) }));
+  }
+
+  /**
+   * Path of a named asset, or the first asset of the kind when no name is given
+   */
+  static find(kind: AssetKind, name?: string): string | null {
+    const assets = this.list(kind);
+    const asset = name ? assets.find((a) => a.name === name) : assets[0];
+    return asset?.path ?? null;
+  }
+}
+
+export class AssemblyTemplates {
+  static readonly DEFAULT = DEFAULT_TEMPLATE;
+
+  /**
+   * Built-in default plus every additional/templates/*.json
+   */
+  static list(): string[] {
+    const names = new Set([DEFAULT_TEMPLATE.name]);
+    const dir = config.assembly.templatesDir;
+
+    if (fs.existsSync(dir)) {
+      for (const file of fs.readdirSync(dir)) {
+        if (path.extname(file).toLowerCase() === '.json') {
+          names.add(path.basename(file, '.json'));
+        }
+      }
+    }
+
+    return [...names].sort();
+  }
+
+  static load(name: string = config.assembly.template): AssemblyTemplate {
+    const filePath = path.join(config.assembly.templatesDir, `${name}.json`);
+
+    if (!fs.existsSync(filePath)) {
+      if (name === DEFAULT_TEMPLATE.name) {
+        return DEFAULT_TEMPLATE;
+      }
+      throw new Error(`Nieznany szablon montażu: ${name} (dostępne: ${this.list().join(', ')})`);
+    }
+
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<AssemblyTemplate>;
+    return this.validate({ ...raw, name: raw.name ?? name }, filePath);
+  }
+
+  /**
+   * Expand the template into the ordered list of files to concatenate
+   */
+  static buildTimeline(template: AssemblyTemplate, sources: TimelineSources): TimelineItem[] {
+    const items: TimelineItem[] = [];
+    const fallback = template.defaultTransition ?? config.assembly.transition;
+
+    for (const element of this.withIntro(template.timeline, sources.introOverride)) {
+      const transition = this.resolveTransition(element.transition ?? fallback);
+      let added: TimelineItem[] = [];
+
+      switch (element.type) {
+        case 'highlights':
+          added = this.expandHighlights(element, sources, element.clipTransition ?? fallback);
+          break;
+        case 'original':
+          added = [{ type: 'original', file: sources.originalPath }];
+          break;
+        default: {
+          const file = this.resolveAsset(element, sources);
+          if (file) {
+            added = [{ type: element.type, file }];
+          }
+        }
+      }
+
+      const [first] = added;
+      if (first && transition) {
+        first.transition = transition;
+      }
+      items.push(...added);
+    }
+
+    // Nothing to transition from at the very start
+    if (items[0]) {
+      delete items[0].transition;
+    }
+
+    return items;
+  }
+
+  /**
+   * An intro chosen explicitly (a path) goes in even when the template has no intro
+   * element - where the default template plays it, right before the original
+   */
+  private static withIntro(timeline: TimelineElement[], introOverride: string | null | undefined): TimelineElement[] {
+    if (typeof introOverride !== 'string' || timeline.some((e) => e.type === 'intro')) {
+      return timeline;
+    }
+
+    const originalIndex = timeline.findIndex((e) => e.type === 'original');
+    const at = originalIndex === -1 ? timeline.length : originalIndex;
+    return [...timeline.slice(0, at), { type: 'intro' }, ...timeline.slice(at)];
+  }
+
+  /**
+   * xfade transition for a spec, or undefined for a hard cut
+   */
+  static resolveTransition(spec: TransitionSpec): Transition | undefined {
+    const type = TRANSITION_ALIASES[spec.type] ?? spec.type;
+    const duration = spec.duration ?? config.assembly.transition.duration;
+
+    if (type === 'cut' || duration <= 0) {
+      return undefined;
+    }
+
+    if (!XFADE_TRANSITIONS.includes(type)) {
+      const known = ['cut', ...Object.keys(TRANSITION_ALIASES), ...XFADE_TRANSITIONS];
+      throw new Error(`Nieznane przejście: ${spec.type} (dostępne: ${known.join(', ')})`);
+    }
+
+    return { type, duration };
+  }
+
+  private static expandHighlights(
+    element: TimelineElement,
+    sources: TimelineSources,
+    clipTransition: TransitionSpec,
+  ): TimelineItem[] {
+    const items: TimelineItem[] = [];
+    const bumper = element.bumper ? AssetLibrary.find('bumper', element.bumper) : null;
+    const transition = this.resolveTransition(clipTransition);
+
+    if (element.bumper && !bumper) {
+      throw new Error(`Brak bumpera "${element.bumper}" w ${AssetLibrary.getDir('bumper')}`);
+    }
+
+    sources.clips.forEach((clip, index) => {
+      if (bumper && index > 0) {
+        items.push({ type: 'bumper', file: bumper, ...(transition && { transition }) });
+      }
+      items.push({
+        type: 'highlights',
+        file: clip.file,
+        clipId: clip.id,
+        ...(index > 0 && transition && { transition }),
+      });
+    });
+
+    return items;
+  }
+
+  private static resolveAsset(element: TimelineElement, sources: TimelineSources): string | null {
+    const kind = element.type as AssetKind;
+
+    if (kind === 'intro' && sources.introOverride !== undefined) {
+      return sources.introOverride;
+    }
+
+    const file = AssetLibrary.find(kind, element.asset);
+    if (!file && !element.optional) {
+      const label = element.asset ? `"${element.asset}"` : 'żadnego pliku';
+      throw new Error(`Brak ${label} (${kind}) w ${AssetLibrary.getDir(kind)}`);
+    }
+
+    return file;
+  }
+
+  private static validate(template: Partial<AssemblyTemplate>, filePath: string): AssemblyTemplate {
+    const fileName = path.basename(filePath);
+
+    if (!Array.isArray(template.timeline) || template.timeline.length === 0) {
+      throw new Error(`Szablon ${fileName}: "timeline" musi być niepustą tablicą`);
+    }
+
+    const validTypes: TimelineElementType[] = ['highlights', 'original', ...ASSET_KINDS];
+    for (const [index, element] of template.timeline.entries()) {
+      if (!element || !validTypes.includes(element.type)) {
+        throw new Error(
+          `Szablon ${fileName}: element ${index + 1} ma nieznany typ "${element?.type}" (dozwolone: ${validTypes.join(', ')})`,
+        );
+      }
+    }
+
+    // Fail on a typo now rather than halfway through an encode
+    const specs = [
+      template.defaultTransition,
+      ...template.timeline.flatMap((e) => [e.transition, e.clipTransition]),
+    ];
+    for (const spec of specs) {
+      if (spec) {
+        try {
+          this.resolveTransition(spec);
+        } catch (err) {
+          throw new Error(`Szablon ${fileName}: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+    }
+
+    return template as AssemblyTemplate;
+  }
+}
@@ -0,0 +1,154 @@
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import { FfmpegBinaries } from './ffmpegBinaries';
+
+FfmpegBinaries.configure();
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+export interface SilenceAnalysis {
+  duration: number;
+  silences: SilenceInterval[];
+}
+
+export interface AudioChunk {
+  path: string;
+  /** Position of the chunk in the source audio, in seconds */
+  offset: number;
+  duration: number;
+}
+
+export class AudioChunker {
+  /**
+   * Run ffmpeg silencedetect over the whole file
+   */
+  static detectSilences(
+    audioPath: string,
+    noise: string = config.transcription.chunking.silenceNoise,
+    minDuration: number = config.transcription.chunking.silenceMinDuration,
+  ): Promise<SilenceAnalysis> {
+    return new Promise((resolve, reject) => {
+      const silences: SilenceInterval[] = [];
+      let duration = 0;
+      let pendingStart: number | null = null;
+
+      ffmpeg(audioPath)
+        .noVideo()
+        .audioFilters(`silencedetect=noise=${noise}:d=${minDuration}`)
+        .format('null')
+        .output('-')
+        .on('codecData', (data) => {
+          duration = this.parseDuration(data.duration);
+        })
+        .on('stderr', (line: string) => {
+          const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+          if (startMatch?.[1]) {
+            pendingStart = Math.max(0, parseFloat(startMatch[1]));
+          }
+
+          const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+          if (endMatch?.[1] && pendingStart !== null) {
+            silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+            pendingStart = null;
+          }
+        })
+        .on('end', () => {
+          // Silence running until the end of file has no silence_end line
+          if (pendingStart !== null && duration > pendingStart) {
+            silences.push({ start: pendingStart, end: duration });
+          }
+          resolve({ duration, silences });
+        })
+        .on('error', (err) => {
+          reject(err);
+        })
+        .run();
+    });
+  }
+
+  /**
+   * Split [0, duration] into ranges no longer than maxChunkSeconds, cutting in the
+   * middle of the latest silence that still fits. Falls back to a hard cut when the
+   * second half of a window contains no silence at all.
+   */
+  static planChunks(
+    duration: number,
+    silences: SilenceInterval[],
+    maxChunkSeconds: number,
+  ): Array<{ start: number; end: number }> {
+    const ranges: Array<{ start: number; end: number }> = [];
+    let cursor = 0;
+
+    while (duration - cursor > maxChunkSeconds) {
+      const limit = cursor + maxChunkSeconds;
+      const earliest = cursor + maxChunkSeconds / 2;
+
+      const splitPoints = silences
+        .map((s) => (s.start + s.end) / 2)
+        .filter((mid) => mid > earliest && mid <= limit);
+
+      const split = splitPoints.length > 0 ? Math.max(...splitPoints) : limit;
+      ranges.push({ start: cursor, end: split });
+      cursor = split;
+    }
+
+    ranges.push({ start: cursor, end: duration });
+    return ranges;
+  }
+
+  static async splitAudio(
+    audioPath: string,
+    analysis: SilenceAnalysis,
+    maxChunkSeconds: number,
+    outputDir: string,
+  ): Promise<AudioChunk[]> {
+    const { duration, silences } = analysis;
+    const ranges = this.planChunks(duration, silences, maxChunkSeconds);
+
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    console.log(`✂️  Dzielenie audio na ${ranges.length} części (${silences.length} wykrytych cisz)`);
+
+    const ext = path.extname(audioPath);
+    const chunks: AudioChunk[] = [];
+
+    for (const [index, range] of ranges.entries()) {
+      const chunkPath = path.join(outputDir, `chunk_${String(index + 1).padStart(3, '0')}${ext}`);
+      await this.extractRange(audioPath, range.start, range.end - range.start, chunkPath);
+      chunks.push({ path: chunkPath, offset: range.start, duration: range.end - range.start });
+    }
+
+    return chunks;
+  }
+
+  private static extractRange(
+    audioPath: string,
+    start: number,
+    duration: number,
+    outputPath: string,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      ffmpeg(audioPath)
+        .setStartTime(start)
+        .setDuration(duration)
+        .noVideo()
+        .audioCodec('copy')
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .run();
+    });
+  }
+
+  private static parseDuration(value: string): number {
+    const [hours = '0', minutes = '0', seconds = '0'] = value.split(':');
+    return parseFloat(hours) * 3600 + parseFloat(minutes) * 60 + parseFloat(seconds);
+  }
+}
@@ -0,0 +1,153 @@
+import { config } from './config';
+import { AudioChunker, SilenceInterval } from './audioChunker';
+import { Highlight, HighlightsResult } from './highlightsSelector';
+import { Subtitles } from './subtitles';
+
+export type BoundarySettings = typeof config.highlights.boundaries;
+
+/**
+ * Settings the cut times in a highlights file were computed with
+ */
+export interface BoundaryRefinement {
+  preRoll: number;
+  postRoll: number;
+  snapToSilence: boolean;
+  snapTolerance: number;
+  refinedAt: string;
+}
+
+export class BoundaryRefiner {
+  /**
+   * True when the highlights already carry cut times computed with the same settings -
+   * reusing them keeps repeated cuts identical
+   */
+  static isRefined(
+    highlights: HighlightsResult,
+    settings: BoundarySettings = config.highlights.boundaries,
+  ): boolean {
+    const applied = highlights.boundaries;
+    return (
+      applied !== undefined &&
+      applied.preRoll === settings.preRoll &&
+      applied.postRoll === settings.postRoll &&
+      applied.snapToSilence === settings.snapToSilence &&
+      applied.snapTolerance === settings.snapTolerance &&
+      highlights.highlights.every((h) => h.cutStartTime !== undefined && h.cutEndTime !== undefined)
+    );
+  }
+
+  /**
+   * Compute cut times for every highlight: padding around the SRT times and, when
+   * enabled, snapping each boundary into the nearest silence of the source audio
+   */
+  static async refine(
+    highlights: HighlightsResult,
+    mediaPath: string,
+    settings: BoundarySettings = config.highlights.boundaries,
+  ): Promise<HighlightsResult> {
+    let silences: SilenceInterval[] = [];
+    let duration = 0;
+
+    if (settings.snapToSilence) {
+      console.log('🔇 Szukanie cisz przy granicach highlights...');
+      const analysis = await AudioChunker.detectSilences(
+        mediaPath,
+        settings.silenceNoise,
+        settings.silenceMinDuration,
+      );
+      silences = analysis.silences;
+      duration = analysis.duration;
+    }
+
+    let snappedCount = 0;
+    const refined = highlights.highlights.map((highlight) => {
+      const result = this.refineHighlight(highlight, silences, duration, settings);
+      snappedCount += result.snapped;
+      return result.highlight;
+    });
+
+    if (settings.snapToSilence) {
+      console.log(`✓ Dociągnięto do ciszy ${snappedCount}/${refined.length * 2} granic`);
+    }
+
+    return {
+      ...highlights,
+      highlights: refined,
+      boundaries: {
+        preRoll: settings.preRoll,
+        postRoll: settings.postRoll,
+        snapToSilence: settings.snapToSilence,
+        snapTolerance: settings.snapTolerance,
+        refinedAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  private static refineHighlight(
+    highlight: Highlight,
+    silences: SilenceInterval[],
+    duration: number,
+    settings: BoundarySettings,
+  ): { highlight: Highlight; snapped: number } {
+    const start = Subtitles.parseTimestamp(highlight.startTime);
+    const end = Subtitles.parseTimestamp(highlight.endTime);
+    let snapped = 0;
+
+    let cutStart = start - settings.preRoll;
+    // Speech starts where a silence ends - keep up to preRoll of that silence
+    const before = this.nearest(silences, (s) => s.end, start, settings.snapTolerance);
+    if (before) {
+      cutStart = Math.max(before.start, before.end - settings.preRoll);
+      snapped++;
+    }
+
+    let cutEnd = end + settings.postRoll;
+    // Speech ends where a silence starts - keep up to postRoll of that silence
+    const after = this.nearest(silences, (s) => s.start, end, settings.snapTolerance);
+    if (after) {
+      cutEnd = Math.min(after.end, after.start + settings.postRoll);
+      snapped++;
+    }
+
+    cutStart = Math.max(0, cutStart);
+    if (duration > 0) {
+      cutEnd = Math.min(duration, cutEnd);
+    }
+
+    // Snapping must never invert the clip - fall back to plain padding
+    if (cutEnd <= cutStart) {
+      cutStart = Math.max(0, start - settings.preRoll);
+      cutEnd = end + settings.postRoll;
+      snapped = 0;
+    }
+
+    return {
+      highlight: {
+        ...highlight,
+        cutStartTime: Subtitles.formatTimestamp(cutStart, '.'),
+        cutEndTime: Subtitles.formatTimestamp(cutEnd, '.'),
+      },
+      snapped,
+    };
+  }
+
+  private static nearest(
+    silences: SilenceInterval[],
+    edge: (silence: SilenceInterval) => number,
+    target: number,
+    tolerance: number,
+  ): SilenceInterval | undefined {
+    let best: SilenceInterval | undefined;
+    let bestDistance = tolerance;
+
+    for (const silence of silences) {
+      const distance = Math.abs(edge(silence) - target);
+      if (distance <= bestDistance) {
+        best = silence;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,105 @@
+import { config } from './config';
+import { SubtitleCue } from './subtitles';
+import { Chapter } from './types';
+
+/**
+ * Chapter lists for the YouTube description and MP4 chapter metadata
+ */
+export class Chapters {
+  /**
+   * Chapters proposed as SRT segment ids, placed at the start of those segments.
+   * Unknown ids are dropped.
+   */
+  static fromSegments(proposed: Array<{ segment: number; title: string }>, cues: SubtitleCue[]): Chapter[] {
+    const chapters: Chapter[] = [];
+
+    for (const { segment, title } of proposed) {
+      const cue = cues.find((c) => c.id === segment);
+      const cleanTitle = String(title ?? '').replace(/\s+/g, ' ').trim();
+      if (cue && cleanTitle) {
+        chapters.push({ start: cue.start, title: cleanTitle });
+      }
+    }
+
+    return chapters;
+  }
+
+  /**
+   * Make a list YouTube accepts: first chapter at 0, every chapter at least minLength
+   * long (too short ones are merged into the previous), at least minChapters of them.
+   * Returns an empty list when that is not possible.
+   */
+  static enforceYouTubeRules(chapters: Chapter[], totalDuration: number): Chapter[] {
+    const { minChapters, minLength } = config.chapters;
+    const sorted = chapters
+      .filter((c) => c.start >= 0 && c.start < totalDuration)
+      .sort((a, b) => a.start - b.start);
+
+    const result: Chapter[] = [];
+    for (const chapter of sorted) {
+      const previous = result[result.length - 1];
+      if (!previous) {
+        result.push({ ...chapter, start: 0 });
+      } else if (chapter.start - previous.start >= minLength) {
+        result.push(chapter);
+      }
+    }
+
+    // The last chapter runs to the end of the video
+    const last = result[result.length - 1];
+    if (last && result.length > 1 && totalDuration - last.start < minLength) {
+      result.pop();
+    }
+
+    return result.length >= minChapters ? result : [];
+  }
+
+  /**
+   * Chapters of the original moved to where the original starts in the assembled video,
+   * with one chapter for everything played before it (when that is long enough to be one)
+   */
+  static shift(chapters: Chapter[], offset: number, totalDuration: number): Chapter[] {
+    const shifted = chapters.map((c) => ({ ...c, start: c.start + offset }));
+    const prelude = offset >= config.chapters.minLength ? [{ start: 0, title: config.chapters.preludeTitle }] : [];
+    return this.enforceYouTubeRules([...prelude, ...shifted], totalDuration);
+  }
+
+  /**
+   * "00:00 Title" lines for the YouTube description; hours only when the video needs them
+   */
+  static formatYouTube(chapters: Chapter[]): string {
+    const withHours = chapters.some((c) => c.start >= 3600);
+    return chapters.map((c) => `${this.formatTime(c.start, withHours)} ${c.title}`).join('\n');
+  }
+
+  /**
+   * ffmpeg FFMETADATA with one [CHAPTER] per chapter, for `-map_chapters`
+   */
+  static toFFMetadata(chapters: Chapter[], totalDuration: number): string {
+    const lines = [';FFMETADATA1'];
+
+    chapters.forEach((chapter, index) => {
+      const end = chapters[index + 1]?.start ?? totalDuration;
+      lines.push(
+        '[CHAPTER]',
+        'TIMEBASE=1/1000',
+        `START=${Math.round(chapter.start * 1000)}`,
+        `END=${Math.round(end * 1000)}`,
+        `title=${chapter.title.replace(/[=;#\\\n]/g, (c) => `\\${c}`)}`,
+      );
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  private static formatTime(seconds: number, withHours: boolean): string {
+    const total = Math.floor(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = String(total % 60).padStart(2, '0');
+
+    return withHours
+      ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+      : `${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+}
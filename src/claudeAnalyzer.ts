@@ -1,53 +1,114 @@
-import Anthropic from '@anthropic-ai/sdk';
 import fs from 'fs';
 import path from 'path';
 import { config } from './config';
-import { AnalysisResult } from './types';
+import { Chapters } from './chapters';
+import { SubtitleCue, Subtitles } from './subtitles';
+import { PromptTemplates, RenderedPrompt } from './promptTemplates';
+import { Languages } from './languages';
+import { LlmProvider, createLlmProvider } from './llmProviders';
+import { Schema, StructuredOutput } from './structuredOutput';
+import { TranscriptWindows } from './transcriptWindows';
+import { AnalysisResult, WindowSummary } from './types';
 
-const anthropic = new Anthropic({
-  apiKey: config.anthropic.apiKey,
-});
+interface RawAnalysis {
+  summary: string;
+  keyPoints: string[];
+  chapters: Array<{ segment: number; title: string }>;
+}
+
+const CHAPTERS_SCHEMA: Schema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      segment: { type: 'number', integer: true, min: 1 },
+      title: { type: 'string', minLength: 1 },
+    },
+  },
+};
+
+const ANALYSIS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    keyPoints: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+    chapters: CHAPTERS_SCHEMA,
+  },
+};
+
+// A window may be all small talk - no key points or chapters required
+const WINDOW_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    keyPoints: { type: 'array', items: { type: 'string', minLength: 1 } },
+    chapters: CHAPTERS_SCHEMA,
+  },
+};
 
 export class ClaudeAnalyzer {
-  static async analyzeSRT(srtContent: string, videoName: string): Promise<AnalysisResult> {
-    console.log(`🤖 Analyzing with Claude: ${videoName}`);
+  /**
+   * sourceLanguage: what the transcript is in (when known); the analysis is written in
+   * config.languages.analysis. Transcripts over the input limit are analyzed window by
+   * window and the window summaries merged (config.longTranscripts).
+   */
+  static async analyzeSRT(
+    srtContent: string,
+    videoName: string,
+    sourceLanguage: string | null = null,
+    llm: LlmProvider = createLlmProvider(),
+  ): Promise<AnalysisResult> {
+    const language = config.languages.analysis;
+    console.log(`🤖 Analyzing with Claude: ${videoName} (${sourceLanguage ?? '?'} → ${language})`);
 
     try {
-      const message = await anthropic.messages.create({
-        model: config.claude.model,
-        max_tokens: config.claude.maxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: `Przeanalizuj poniższą transkrypcję wideo (format SRT) i podaj:
-1. Krótkie podsumowanie (2-3 zdania) po polsku
-2. Kluczowe punkty lub tematy omówione (jako lista) po polsku
-
-Transkrypcja:
-${srtContent}
-
-Zwróć odpowiedź TYLKO jako JSON z kluczami: "summary" (string) i "keyPoints" (tablica stringów). Odpowiedź musi być po polsku.`,
-          },
-        ],
-      });
-
-      const responseText =
-        message.content[0].type === 'text' ? message.content[0].text : '';
+      const cues = Subtitles.parseSRT(srtContent);
+      let windows: WindowSummary[] | undefined;
+      let prompt: RenderedPrompt;
 
-      // Parse JSON response
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('Could not parse Claude response as JSON');
+      if (TranscriptWindows.shouldSplit(srtContent)) {
+        windows = await this.summarizeWindows(cues, videoName, sourceLanguage, llm);
+        prompt = PromptTemplates.render('analysis-reduce', {
+          count: windows.length,
+          digest: TranscriptWindows.formatDigest(windows),
+          language: Languages.name(language),
+        });
+      } else {
+        prompt = PromptTemplates.render('analysis', {
+          transcript: srtContent,
+          language: Languages.name(language),
+          sourceLanguage: sourceLanguage ? Languages.name(sourceLanguage) : '',
+        });
       }
 
-      const parsed = JSON.parse(jsonMatch[0]);
+      const cueIds = new Set(cues.map((c) => c.id));
+      const { data: parsed } = await StructuredOutput.request<RawAnalysis>(llm, {
+        task: `analysis ${videoName}`,
+        prompt: prompt.text,
+        promptInfo: prompt.info,
+        schema: ANALYSIS_SCHEMA,
+        maxTokens: config.claude.budgets.analysis,
+        check: (data) => this.checkSegments(data.chapters, cueIds),
+      });
+
+      const duration = cues[cues.length - 1]?.end ?? 0;
+      const chapters = Chapters.enforceYouTubeRules(Chapters.fromSegments(parsed.chapters, cues), duration);
+      if (chapters.length === 0) {
+        console.warn(`⚠ No chapters meeting YouTube rules for ${videoName}`);
+      }
 
       const result: AnalysisResult = {
         videoName,
-        summary: parsed.summary || '',
-        keyPoints: parsed.keyPoints || [],
+        summary: parsed.summary,
+        keyPoints: parsed.keyPoints,
+        chapters,
+        language,
+        prompt: prompt.info,
         timestamp: new Date().toISOString(),
       };
+      if (windows) {
+        result.windows = windows;
+      }
 
       console.log(`✓ Analysis complete for ${videoName}`);
       return result;
@@ -57,9 +118,76 @@ Zwróć odpowiedź TYLKO jako JSON z kluczami: "summary" (string) i "keyPoints"
     }
   }
 
+  /**
+   * Map step for long transcripts: each overlapping window summarized on its own,
+   * in config.languages.analysis
+   */
+  static async summarizeWindows(
+    cues: SubtitleCue[],
+    videoName: string,
+    sourceLanguage: string | null = null,
+    llm: LlmProvider = createLlmProvider(),
+  ): Promise<WindowSummary[]> {
+    const windows = TranscriptWindows.split(cues);
+    const summaries: WindowSummary[] = [];
+    console.log(`🧩 Long transcript: ${windows.length} windows of ${config.longTranscripts.windowSeconds}s`);
+
+    for (const [index, window] of windows.entries()) {
+      const prompt = PromptTemplates.render('window-summary', {
+        index: index + 1,
+        count: windows.length,
+        start: Subtitles.formatTimestamp(window.start).slice(0, 8),
+        end: Subtitles.formatTimestamp(window.end).slice(0, 8),
+        transcript: TranscriptWindows.formatCues(window.cues),
+        language: Languages.name(config.languages.analysis),
+        sourceLanguage: sourceLanguage ? Languages.name(sourceLanguage) : '',
+      });
+
+      const cueIds = new Set(window.cues.map((c) => c.id));
+      const { data } = await StructuredOutput.request<RawAnalysis>(llm, {
+        task: `analysis ${videoName} window ${index + 1}/${windows.length}`,
+        prompt: prompt.text,
+        promptInfo: prompt.info,
+        schema: WINDOW_SCHEMA,
+        maxTokens: config.claude.budgets.windowSummary,
+        check: (result) => this.checkSegments(result.chapters, cueIds, 'w tym fragmencie'),
+      });
+
+      summaries.push({
+        start: window.start,
+        end: window.end,
+        firstSegment: window.cues[0]!.id,
+        lastSegment: window.cues[window.cues.length - 1]!.id,
+        summary: data.summary,
+        keyPoints: data.keyPoints,
+        chapters: data.chapters,
+      });
+      console.log(`✓ Window ${index + 1}/${windows.length} summarized`);
+    }
+
+    return summaries;
+  }
+
+  private static checkSegments(
+    chapters: RawAnalysis['chapters'],
+    cueIds: Set<number>,
+    where = 'w transkrypcji',
+  ): string[] {
+    return chapters
+      .filter((chapter) => !cueIds.has(chapter.segment))
+      .map((chapter) => `chapters: segment ${chapter.segment} nie istnieje ${where}`);
+  }
+
   static saveAnalysis(analysisResult: AnalysisResult, outputPath: string): void {
     const content = JSON.stringify(analysisResult, null, 2);
     fs.writeFileSync(outputPath, content, 'utf-8');
     console.log(`✓ Analysis saved: ${outputPath}`);
   }
+
+  static loadAnalysis(analysisPath: string): AnalysisResult | null {
+    if (!fs.existsSync(analysisPath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(analysisPath, 'utf-8')) as AnalysisResult;
+  }
 }
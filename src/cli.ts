@@ -0,0 +1,291 @@
+#!/usr/bin/env -S npx tsx
+import { parseArgs } from 'util';
+import { Agent, CacheAction, InputNotFoundError, CACHE_ACTIONS, CleanType, CLEAN_TYPES, StepOptions, StepType, STEP_TYPES } from './agent';
+import { config } from './config';
+import { LoudnessNormalizer, LoudnessPresetName } from './loudnessNormalizer';
+import { Languages } from './languages';
+
+// Exit codes - stable, so cron jobs and shell scripts can rely on them
+const EXIT_OK = 0;
+const EXIT_STEP_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_FATAL = 3;
+
+const STEP_ALIASES: Record<string, StepType> = {
+  assemble: 'assemble-full',
+  cut: 'cut-highlights',
+  approve: 'approve-highlights',
+};
+
+// Help in config.languages.ui
+const USAGE = Languages.ui({
+  pl: `Użycie: vide-agent <komenda> [opcje]
+
+Komendy:
+  process               Cały proces (extract → transcribe → analyze → organize),
+                        wznawiany od pierwszego niezakończonego lub nieaktualnego kroku
+  extract               Ekstrakcja audio z wideo
+  transcribe            Transkrypcja (audio → SRT)
+  analyze               Analiza Claude (SRT → JSON)
+  organize              Organizacja plików + treści platform
+  highlights            Wybór highlights (wymaga --select lub --suggest)
+  cut-highlights        Wycięcie klipów z highlights (alias: cut)
+  approve-highlights    Zatwierdzenie highlights do filmu (wymaga --select, alias: approve)
+  assemble-full         Złożenie filmu końcowego (alias: assemble)
+  thumbnails            Kandydaci miniatur z tytułem YouTube (16:9 i 9:16)
+  clean <typ>           Czyszczenie folderów: ${CLEAN_TYPES.join(' | ')}
+  cache list            Wpisy cache wyników Whisper i Claude
+  cache invalidate [filtr]  Usuń wpisy: rodzaj (transcription | claude), nazwa filmu
+                        lub początek klucza; bez filtra - cały cache
+  cache prune [dni]     Usuń wpisy nieużywane od podanej liczby dni (domyślnie ${config.cache.maxAgeDays})
+  usage [okres]         Użycie API i koszt per film: RRRR-MM (domyślnie bieżący miesiąc),
+                        RRRR lub all
+
+Opcje:
+  -i, --input <plik>    Przetwarzaj tylko ten film (ścieżka lub nazwa, rozszerzenie opcjonalne)
+  -s, --select <wybór>  Wybór segmentów/klipów, np. "1-3,7", "all" lub "skip";
+                        "[3-6]" łączy segmenty 3-6 w jeden klip
+                        ("suggested" = propozycje Claude, wymaga --suggest)
+      --suggest         highlights: Claude proponuje fragmenty (bez --select są przyjmowane wprost)
+      --merge           highlights: sąsiednie wybrane segmenty tworzą jeden klip
+      --overwrite       Nadpisz istniejące wyniki zamiast je pomijać (process: uruchom wszystkie kroki)
+      --intro <intro>   Intro do filmu końcowego: ścieżka, "auto" (wg szablonu) lub "none"
+                        (domyślnie: auto)
+      --loudness <preset> Normalizacja głośności klipów i filmu: off, youtube (-14 LUFS),
+                        podcast (-16 LUFS), broadcast (-23 LUFS)
+      --music <nazwa>   Muzyka z additional/music pod klipami i filmem: nazwa pliku bez
+                        rozszerzenia, "auto" (pierwszy plik) lub "none"
+      --template <nazwa>  Szablon montażu (additional/templates/<nazwa>.json lub "default");
+                        zapamiętywany w projekcie
+      --no-cache        Nie czytaj ani nie zapisuj cache (wywołuje Whisper i Claude ponownie)
+      --language <kod>  process/transcribe: język nagrania (pl, en...) lub "auto" (wykrywanie);
+                        zmiana języka wymusza ponowną transkrypcję
+  -h, --help            Pokaż tę pomoc
+
+Kody wyjścia:
+  0  sukces
+  1  co najmniej jeden element zakończył się błędem
+  2  nieprawidłowe wywołanie (także --input, do którego nie pasuje żaden plik)
+  3  błąd krytyczny`,
+  en: `Usage: vide-agent <command> [options]
+
+Commands:
+  process               Whole process (extract → transcribe → analyze → organize),
+                        resumed from the first unfinished or stale step
+  extract               Extract audio from video
+  transcribe            Transcribe (audio → SRT)
+  analyze               Claude analysis (SRT → JSON)
+  organize              Organize files + platform content
+  highlights            Select highlights (needs --select or --suggest)
+  cut-highlights        Cut clips from highlights (alias: cut)
+  approve-highlights    Approve highlights for the video (needs --select, alias: approve)
+  assemble-full         Assemble the final video (alias: assemble)
+  thumbnails            Thumbnail candidates with the YouTube title (16:9 and 9:16)
+  clean <type>          Clean folders: ${CLEAN_TYPES.join(' | ')}
+  cache list            Cached Whisper and Claude results
+  cache invalidate [filter]  Remove entries: kind (transcription | claude), video name
+                        or key prefix; no filter - the whole cache
+  cache prune [days]    Remove entries unused for the given number of days (default ${config.cache.maxAgeDays})
+  usage [period]        API usage and cost per video: YYYY-MM (default: this month),
+                        YYYY or all
+
+Options:
+  -i, --input <file>    Process only this video (path or name, extension optional)
+  -s, --select <sel>    Segment/clip selection, e.g. "1-3,7", "all" or "skip";
+                        "[3-6]" joins segments 3-6 into one clip
+                        ("suggested" = Claude's proposals, needs --suggest)
+      --suggest         highlights: Claude proposes fragments (taken as they are without --select)
+      --merge           highlights: adjacent selected segments make one clip
+      --overwrite       Overwrite existing results instead of skipping them (process: run every step)
+      --intro <intro>   Intro for the final video: path, "auto" (per template) or "none"
+                        (default: auto)
+      --loudness <preset> Loudness normalization of clips and the video: off, youtube (-14 LUFS),
+                        podcast (-16 LUFS), broadcast (-23 LUFS)
+      --music <name>    Music from additional/music under clips and the video: file name without
+                        extension, "auto" (first file) or "none"
+      --template <name>  Assembly template (additional/templates/<name>.json or "default");
+                        remembered in the project
+      --no-cache        Don't read or write the cache (calls Whisper and Claude again)
+      --language <code> process/transcribe: spoken language (pl, en...) or "auto" (detect);
+                        changing it forces a new transcription
+  -h, --help            Show this help
+
+Exit codes:
+  0  success
+  1  at least one item failed
+  2  invalid invocation (also an --input no file matches)
+  3  fatal error`,
+});
+
+function usageError(message: string): never {
+  console.error(`✗ ${message}\n`);
+  console.error(USAGE);
+  process.exit(EXIT_USAGE);
+}
+
+/**
+ * A mistyped --input is an invalid invocation, not a step that had nothing to do
+ */
+function inputError(err: unknown): never {
+  if (err instanceof InputNotFoundError) {
+    usageError(err.message);
+  }
+  throw err;
+}
+
+function resolveStep(command: string): StepType | null {
+  if ((STEP_TYPES as string[]).includes(command)) {
+    return command as StepType;
+  }
+  return STEP_ALIASES[command] ?? null;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        input: { type: 'string', short: 'i' },
+        select: { type: 'string', short: 's' },
+        overwrite: { type: 'boolean' },
+        suggest: { type: 'boolean' },
+        merge: { type: 'boolean' },
+        intro: { type: 'string' },
+        template: { type: 'string' },
+        loudness: { type: 'string' },
+        music: { type: 'string' },
+        language: { type: 'string' },
+        'no-cache': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    usageError(err instanceof Error ? err.message : String(err));
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...rest] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const options: StepOptions = {
+    overwrite: values.overwrite ?? false,
+    // Nobody can answer the intro question in a script - the template decides
+    intro: values.intro ?? 'auto',
+  };
+  if (values.input !== undefined) options.input = values.input;
+  if (values.select !== undefined) options.select = values.select;
+  if (values.suggest !== undefined) options.suggest = values.suggest;
+  if (values.merge !== undefined) options.mergeAdjacent = values.merge;
+  if (values.template !== undefined) options.template = values.template;
+  if (values.music !== undefined) options.music = values.music;
+  if (values.language !== undefined) {
+    try {
+      Languages.sourceFor(values.language);
+    } catch (err) {
+      usageError(err instanceof Error ? err.message : String(err));
+    }
+    options.language = values.language;
+  }
+  if (values.loudness !== undefined) {
+    if (values.loudness !== 'off' && !LoudnessNormalizer.PRESET_NAMES.includes(values.loudness as LoudnessPresetName)) {
+      const presets = `off | ${LoudnessNormalizer.PRESET_NAMES.join(' | ')}`;
+      usageError(Languages.ui({
+        pl: `Nieznany preset głośności: ${values.loudness} (${presets})`,
+        en: `Unknown loudness preset: ${values.loudness} (${presets})`,
+      }));
+    }
+    options.loudness = values.loudness;
+  }
+
+  if (values['no-cache']) {
+    config.cache.enabled = false;
+  }
+
+  const agent = new Agent();
+
+  if (command === 'clean') {
+    const type = rest[0] as CleanType | undefined;
+    if (!type || !CLEAN_TYPES.includes(type)) {
+      usageError(Languages.ui({
+        pl: `Podaj typ czyszczenia: ${CLEAN_TYPES.join(' | ')}`,
+        en: `Give the clean type: ${CLEAN_TYPES.join(' | ')}`,
+      }));
+    }
+    await agent.clean(type);
+    return EXIT_OK;
+  }
+
+  if (command === 'cache') {
+    const [action, filter, ...extra] = rest as [CacheAction | undefined, ...string[]];
+    if (!action || !CACHE_ACTIONS.includes(action) || extra.length > 0 || (action === 'list' && filter !== undefined)) {
+      usageError(Languages.ui({
+        pl: `Użycie: cache ${CACHE_ACTIONS.join(' | ')} [filtr]`,
+        en: `Usage: cache ${CACHE_ACTIONS.join(' | ')} [filter]`,
+      }));
+    }
+    await agent.cache(action, filter);
+    return EXIT_OK;
+  }
+
+  if (command === 'usage') {
+    if (rest.length > 1) {
+      usageError(Languages.ui({
+        pl: 'Użycie: usage [RRRR-MM | RRRR | all]',
+        en: 'Usage: usage [YYYY-MM | YYYY | all]',
+      }));
+    }
+    agent.usage(rest[0]);
+    return EXIT_OK;
+  }
+
+  if (rest.length > 0) {
+    usageError(Languages.ui({
+      pl: `Nieoczekiwane argumenty: ${rest.join(' ')}`,
+      en: `Unexpected arguments: ${rest.join(' ')}`,
+    }));
+  }
+
+  if (command === 'process') {
+    const results = await agent.processAllVideos(options).catch(inputError);
+    return results.some((r) => !r.success) ? EXIT_STEP_FAILED : EXIT_OK;
+  }
+
+  const step = resolveStep(command);
+  if (!step) {
+    usageError(Languages.ui({ pl: `Nieznana komenda: ${command}`, en: `Unknown command: ${command}` }));
+  }
+
+  if (step === 'highlights' && options.suggest && options.select === undefined) {
+    options.select = 'suggested';
+  }
+
+  if ((step === 'highlights' || step === 'approve-highlights') && options.select === undefined) {
+    usageError(Languages.ui({
+      pl: `Komenda ${command} wymaga opcji --select`,
+      en: `Command ${command} needs --select`,
+    }));
+  }
+
+  const summary = await agent.runStep(step, options).catch(inputError);
+  console.log(Languages.ui({
+    pl: `\n📋 ${step}: ${summary.processed} przetworzono, ${summary.skipped} pominięto, ${summary.failed} błędów`,
+    en: `\n📋 ${step}: ${summary.processed} processed, ${summary.skipped} skipped, ${summary.failed} failed`,
+  }));
+
+  return summary.failed > 0 ? EXIT_STEP_FAILED : EXIT_OK;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exit(code);
+  })
+  .catch((err) => {
+    console.error(Languages.ui({ pl: 'Błąd krytyczny:', en: 'Fatal error:' }), err);
+    process.exit(EXIT_FATAL);
+  });
@@ -25,14 +25,265 @@ export const config = {
     audioBitrate: '192k',
   },
 
+  // Video encoding for cut highlights and the assembled video
+  encoding: {
+    // 'auto' picks sdr-h264 / hlg-hevc / pq-hevc from the source's color metadata;
+    // any other value names a built-in or custom profile
+    profile: process.env.ENCODING_PROFILE || 'auto',
+    audioCodec: 'aac',
+    audioBitrate: '192k',
+    // Custom profiles override codec, CRF and preset; color tagging follows the source
+    // unless `base` names a built-in profile
+    custom: {
+      archive: { codec: 'libx265', crf: 10, preset: 'slow' },
+      draft: { codec: 'libx264', crf: 28, preset: 'veryfast' },
+    } as Record<string, { codec: string; crf: number; preset: string; base?: string }>,
+  },
+
+  // ffmpeg / ffprobe binaries. Default ffmpeg is the bundled @ffmpeg-installer build (2018,
+  // no xfade - transitions need 4.3+); ffprobe is looked up on PATH unless set
+  ffmpeg: {
+    path: process.env.FFMPEG_PATH || '',
+    probePath: process.env.FFPROBE_PATH || '',
+  },
+
   // Whisper options (for transcription)
   whisper: {
-    language: 'pl',
+    model: 'whisper-1',
+  },
+
+  // Language codes (ISO 639-1). The source is what is spoken in the video; the others are
+  // what the generated text is written in, so e.g. an English talk can get Polish copy.
+  languages: {
+    // 'auto' = detected by the transcription backend; per video: --language
+    source: process.env.SOURCE_LANGUAGE || 'auto',
+    // Summary, key points, chapter titles and highlight reasons
+    analysis: process.env.ANALYSIS_LANGUAGE || 'pl',
+    // Platform content, generated once per language; the first one gets the registry file
+    // names, the others <name>.<code>.txt (e.g. youtube.en.txt)
+    content: (process.env.CONTENT_LANGUAGES || 'pl')
+      .split(',')
+      .map((code) => code.trim().toLowerCase())
+      .filter(Boolean),
+    // Menu, CLI help and summaries, step messages and selection prompts: 'pl' or 'en'
+    ui: process.env.UI_LANGUAGE || 'pl',
+  },
+
+  // Transcription backend: 'openai' (Whisper API), 'local' (whisper.cpp / faster-whisper binary)
+  // or 'fake' (canned segments from fixtures - offline runs)
+  transcription: {
+    provider: (process.env.TRANSCRIPTION_PROVIDER || 'openai') as 'openai' | 'local' | 'fake',
+    local: {
+      engine: (process.env.LOCAL_WHISPER_ENGINE || 'whisper.cpp') as 'whisper.cpp' | 'faster-whisper',
+      // whisper.cpp: `whisper-cli`, faster-whisper: `whisper-ctranslate2`
+      binaryPath: process.env.LOCAL_WHISPER_BINARY || 'whisper-cli',
+      // whisper.cpp: path to ggml model file, faster-whisper: model name (e.g. 'large-v3')
+      model: process.env.LOCAL_WHISPER_MODEL || '',
+      threads: parseInt(process.env.LOCAL_WHISPER_THREADS || '4', 10),
+      extraArgs: [] as string[],
+    },
+    // Long audio is split at silences when it exceeds the provider's upload limit
+    chunking: {
+      maxChunkSeconds: 600,
+      silenceNoise: '-35dB',
+      silenceMinDuration: 0.4,
+    },
+  },
+
+  // Subtitle files written next to the SRT after transcription
+  subtitles: {
+    formats: ['vtt', 'ass'] as Array<'vtt' | 'ass'>,
+    // ASS colours are &HAABBGGRR
+    ass: {
+      fontName: 'Arial',
+      fontSize: 64,
+      bold: true,
+      primaryColor: '&H00FFFFFF',
+      highlightColor: '&H0000D7FF',
+      outlineColor: '&H00000000',
+      backColor: '&H80000000',
+      outline: 3,
+      shadow: 1,
+      marginV: 80,
+      playResX: 1920,
+      playResY: 1080,
+      // Word-by-word highlight (\k tags) when word timings are available
+      karaoke: false,
+    },
+  },
+
+  // Format every assembled input is converted to before concat/xfade
+  normalization: {
+    // 'source' = same as the original video, or e.g. '1920x1080'
+    resolution: process.env.NORMALIZE_RESOLUTION || 'source',
+    // 'source' = same as the original video, or e.g. '30' / '30000/1001'
+    frameRate: process.env.NORMALIZE_FPS || 'source',
+    sampleRate: 48000,
+    channelLayout: 'stereo',
+  },
+
+  // Two-pass EBU R128 loudness normalization of cut clips and the assembled video:
+  // 'off', 'youtube' (-14 LUFS), 'podcast' (-16 LUFS) or 'broadcast' (-23 LUFS)
+  loudness: {
+    preset: process.env.LOUDNESS_PRESET || 'off',
+  },
+
+  // Background music from additional/music under clips and the full video
+  music: {
+    // 'none', 'auto' (first file in the library) or a file name without extension
+    track: process.env.MUSIC_TRACK || 'none',
+    settings: {
+      volumeDb: -18,
+      fadeIn: 1.5,
+      fadeOut: 2,
+      // sidechaincompress: threshold is linear (0-1), attack/release in ms
+      duck: { threshold: 0.03, ratio: 8, attack: 20, release: 400 },
+    },
+  },
+
+  // Claude prompt templates: additional/prompts/<profile>/*.md and profile.json (brand,
+  // audience, tone). One profile per channel; missing files fall back to the default profile.
+  prompts: {
+    dir: path.join(process.cwd(), 'additional', 'prompts'),
+    profile: process.env.PROMPT_PROFILE || 'default',
+  },
+
+  // Platforms with generated content (titles, descriptions, hashtags) and their limits
+  platforms: {
+    registryFile: process.env.PLATFORMS_FILE || path.join(process.cwd(), 'additional', 'platforms.json'),
+    // Cut over-long text and surplus hashtags instead of only reporting them
+    repair: process.env.PLATFORMS_REPAIR !== 'false',
+  },
+
+  // Chapters from the analysis: YouTube needs the first at 00:00, at least 3 and each 10 s or longer
+  chapters: {
+    minChapters: 3,
+    minLength: 10,
+    // Chapter covering what the assembled video plays before the original (highlights, intro)
+    preludeTitle: 'Zapowiedź',
+  },
+
+  // Thumbnail candidates with the YouTube title drawn on them
+  thumbnails: {
+    // Ranking of sampled frames: 'sharpness' (edge density) or 'scene' (ffmpeg scene change score)
+    method: process.env.THUMBNAIL_METHOD || 'sharpness',
+    // One frame every sampleInterval seconds plus every scene change above sceneThreshold
+    sampleInterval: 2,
+    sceneThreshold: 0.3,
+    // Candidates from the original video and from each highlight clip
+    candidates: parseInt(process.env.THUMBNAIL_CANDIDATES || '4', 10),
+    candidatesPerClip: 1,
+    // Minimum distance between candidates from one source, seconds
+    minGap: 5,
+    text: {
+      // TTF/OTF file; empty = fontconfig lookup of fontFamily
+      fontFile: process.env.THUMBNAIL_FONT_FILE || '',
+      fontFamily: 'DejaVu Sans:style=Bold',
+      fontColor: process.env.THUMBNAIL_FONT_COLOR || 'white',
+      borderColor: 'black',
+      borderWidth: 4,
+      // ffmpeg color with alpha, or '' for no box behind the text
+      boxColor: process.env.THUMBNAIL_BOX_COLOR || 'black@0.55',
+      // 'top', 'center' or 'bottom'
+      position: process.env.THUMBNAIL_TEXT_POSITION || 'bottom',
+    },
+    variants: {
+      // Titles longer than maxLines lines are set in a smaller font
+      '16x9': { width: 1280, height: 720, fontSize: 72, maxLineChars: 24, maxLines: 3 },
+      '9x16': { width: 1080, height: 1920, fontSize: 96, maxLineChars: 14, maxLines: 5 },
+    } as Record<string, { width: number; height: number; fontSize: number; maxLineChars: number; maxLines: number }>,
+  },
+
+  // Full video assembly
+  assembly: {
+    // Template used when the project has none: 'default' or a file name from templatesDir
+    template: process.env.ASSEMBLY_TEMPLATE || 'default',
+    templatesDir: path.join(process.cwd(), 'additional', 'templates'),
+    // Asset library: additional/intro, additional/outro, additional/bumper, additional/endcard
+    assetsDir: path.join(process.cwd(), 'additional'),
+    // Transition where the template sets none: 'cut', 'crossfade', 'fade-through-black',
+    // 'wipe' or any ffmpeg xfade transition name (needs ffmpeg 4.3+)
+    transition: {
+      type: process.env.ASSEMBLY_TRANSITION || 'cut',
+      duration: parseFloat(process.env.ASSEMBLY_TRANSITION_DURATION || '0.5'),
+    },
+  },
+
+  // Highlights selection
+  highlights: {
+    // Ask Claude for ranked highlight candidates before the manual selection
+    aiSuggestions: process.env.HIGHLIGHTS_AI_SUGGESTIONS === 'true',
+    maxSuggestions: 8,
+    // Join adjacent selected segments into one continuous clip
+    mergeAdjacent: process.env.HIGHLIGHTS_MERGE_ADJACENT === 'true',
+    // Cut boundaries: Whisper timings tend to clip the first syllable and the last breath
+    boundaries: {
+      preRoll: parseFloat(process.env.HIGHLIGHTS_PRE_ROLL || '0.2'),
+      postRoll: parseFloat(process.env.HIGHLIGHTS_POST_ROLL || '0.3'),
+      // Move each boundary into the nearest silence within the tolerance (seconds)
+      snapToSilence: process.env.HIGHLIGHTS_SNAP_TO_SILENCE === 'true',
+      snapTolerance: 0.6,
+      silenceNoise: '-35dB',
+      silenceMinDuration: 0.15,
+    },
+  },
+
+  // Whisper and Claude results cached under a hash of their inputs (.cache/<kind>/<hash>.json),
+  // so re-running a step with unchanged inputs is not billed again
+  cache: {
+    enabled: process.env.CACHE_ENABLED !== 'false',
+    dir: process.env.CACHE_DIR || path.join(process.cwd(), '.cache'),
+    // `cache prune` removes entries not used for this many days
+    maxAgeDays: parseInt(process.env.CACHE_MAX_AGE_DAYS || '30', 10),
+  },
+
+  // Fixtures of the 'fake' providers: transcription.json (language + spoken lines) and
+  // llm/<template>.json (response per prompt template)
+  fixtures: {
+    dir: process.env.FIXTURES_DIR || path.join(process.cwd(), 'additional', 'fixtures'),
+  },
+
+  // Usage of every Whisper and Claude call with its cost, per video: usage/<videoName>.json
+  usage: {
+    dir: process.env.USAGE_DIR || path.join(process.cwd(), 'usage'),
+    // USD per model: per million input/output tokens, per minute of audio. Models missing
+    // here are reported at cost 0 with a warning; local Whisper is free.
+    prices: {
+      'claude-opus-4-1-20250805': { inputPerMTok: 15, outputPerMTok: 75 },
+      'claude-sonnet-4-5': { inputPerMTok: 3, outputPerMTok: 15 },
+      'whisper-1': { perMinute: 0.006 },
+      'gpt-4o-transcribe': { perMinute: 0.006 },
+      'gpt-4o-mini-transcribe': { perMinute: 0.003 },
+    } as Record<string, { inputPerMTok?: number; outputPerMTok?: number; perMinute?: number }>,
+  },
+
+  // Transcripts too long for one prompt are summarized in overlapping windows (map) and the
+  // window summaries merged into the analysis and the platform content (reduce)
+  longTranscripts: {
+    // 'auto' = windows when the transcript exceeds maxInputTokens, 'single' or 'windows'
+    mode: process.env.ANALYSIS_MODE || 'auto',
+    maxInputTokens: parseInt(process.env.ANALYSIS_MAX_INPUT_TOKENS || '40000', 10),
+    windowSeconds: 900,
+    overlapSeconds: 60,
+    // Token estimate without an API call - lower than English's ~4 for Polish text
+    charsPerToken: 3.5,
   },
 
   // Claude options
   claude: {
+    // 'anthropic' (Claude API) or 'fake' (canned responses from fixtures - offline runs)
+    provider: (process.env.LLM_PROVIDER || 'anthropic') as 'anthropic' | 'fake',
     model: 'claude-opus-4-1-20250805',
-    maxTokens: 1024,
+    // Output token budget of each step
+    budgets: {
+      analysis: parseInt(process.env.CLAUDE_BUDGET_ANALYSIS || '2048', 10),
+      // One window of a long transcript (map step); the merge uses the analysis budget
+      windowSummary: parseInt(process.env.CLAUDE_BUDGET_WINDOW || '1024', 10),
+      // Per platform, at least 2000 in total
+      platformContent: parseInt(process.env.CLAUDE_BUDGET_PLATFORM || '500', 10),
+      highlights: parseInt(process.env.CLAUDE_BUDGET_HIGHLIGHTS || '2000', 10),
+    },
+    // Corrected responses asked for when a response fails its schema, before giving up
+    repairAttempts: parseInt(process.env.CLAUDE_REPAIR_ATTEMPTS || '2', 10),
   },
 };
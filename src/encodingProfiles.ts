@@ -0,0 +1,203 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from './config';
+import { FfmpegBinaries } from './ffmpegBinaries';
+
+FfmpegBinaries.configure();
+
+export type DynamicRange = 'sdr' | 'hlg' | 'pq';
+
+export interface ColorInfo {
+  dynamicRange: DynamicRange;
+  /** Raw ffprobe values, undefined when the stream is untagged */
+  colorPrimaries?: string;
+  colorTransfer?: string;
+  colorSpace?: string;
+  pixFmt?: string;
+}
+
+export interface EncodingProfile {
+  name: string;
+  codec: string;
+  crf: number;
+  preset: string;
+  pixFmt: string;
+  colorPrimaries: string;
+  colorTransfer: string;
+  colorSpace: string;
+}
+
+const BUILT_IN_PROFILES: Record<string, EncodingProfile> = {
+  'sdr-h264': {
+    name: 'sdr-h264',
+    codec: 'libx264',
+    crf: 18,
+    preset: 'fast',
+    pixFmt: 'yuv420p',
+    colorPrimaries: 'bt709',
+    colorTransfer: 'bt709',
+    colorSpace: 'bt709',
+  },
+  'hlg-hevc': {
+    name: 'hlg-hevc',
+    codec: 'libx265',
+    crf: 15,
+    preset: 'fast',
+    pixFmt: 'yuv420p10le',
+    colorPrimaries: 'bt2020',
+    colorTransfer: 'arib-std-b67',
+    colorSpace: 'bt2020nc',
+  },
+  'pq-hevc': {
+    name: 'pq-hevc',
+    codec: 'libx265',
+    crf: 15,
+    preset: 'fast',
+    pixFmt: 'yuv420p10le',
+    colorPrimaries: 'bt2020',
+    colorTransfer: 'smpte2084',
+    colorSpace: 'bt2020nc',
+  },
+};
+
+const AUTO_PROFILES: Record<DynamicRange, string> = {
+  sdr: 'sdr-h264',
+  hlg: 'hlg-hevc',
+  pq: 'pq-hevc',
+};
+
+export class EncodingProfiles {
+  /**
+   * Read color metadata of the first video stream
+   */
+  static probeColor(videoPath: string): Promise<ColorInfo> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(videoPath, (err, metadata) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const stream = metadata.streams.find((s) => s.codec_type === 'video');
+        if (!stream) {
+          reject(new Error(`Brak strumienia wideo: ${videoPath}`));
+          return;
+        }
+
+        const info: ColorInfo = {
+          dynamicRange: this.toDynamicRange(stream.color_transfer),
+        };
+        if (stream.color_primaries) info.colorPrimaries = stream.color_primaries;
+        if (stream.color_transfer) info.colorTransfer = stream.color_transfer;
+        if (stream.color_space) info.colorSpace = stream.color_space;
+        if (stream.pix_fmt) info.pixFmt = stream.pix_fmt;
+
+        resolve(info);
+      });
+    });
+  }
+
+  /**
+   * Profile for a source: 'auto' follows its dynamic range, other names pick a
+   * built-in profile or a custom one from config.encoding.custom
+   */
+  static resolve(color: ColorInfo, name: string = config.encoding.profile): EncodingProfile {
+    const detected = this.forColor(color);
+
+    if (name === 'auto') {
+      return detected;
+    }
+
+    const builtIn = BUILT_IN_PROFILES[name];
+    if (builtIn) {
+      return builtIn;
+    }
+
+    const custom = config.encoding.custom[name];
+    if (!custom) {
+      const known = ['auto', ...Object.keys(BUILT_IN_PROFILES), ...Object.keys(config.encoding.custom)];
+      throw new Error(`Nieznany profil kodowania: ${name} (dostępne: ${known.join(', ')})`);
+    }
+
+    let base = detected;
+    if (custom.base) {
+      const named = BUILT_IN_PROFILES[custom.base];
+      if (!named) {
+        throw new Error(`Profil ${name}: nieznany profil bazowy ${custom.base}`);
+      }
+      base = named;
+    }
+
+    return {
+      ...base,
+      name,
+      codec: custom.codec,
+      crf: custom.crf,
+      preset: custom.preset,
+    };
+  }
+
+  /**
+   * Built-in profile matching the source; SDR keeps the source's own color tags
+   * (e.g. BT.601 screen recordings) instead of forcing BT.709
+   */
+  static forColor(color: ColorInfo): EncodingProfile {
+    const profile = BUILT_IN_PROFILES[AUTO_PROFILES[color.dynamicRange]]!;
+
+    if (color.dynamicRange !== 'sdr') {
+      return profile;
+    }
+
+    return {
+      ...profile,
+      colorPrimaries: this.tagOrDefault(color.colorPrimaries, profile.colorPrimaries),
+      colorTransfer: this.tagOrDefault(color.colorTransfer, profile.colorTransfer),
+      colorSpace: this.tagOrDefault(color.colorSpace, profile.colorSpace),
+    };
+  }
+
+  /**
+   * ffmpeg output options for the video stream (audio options are added by the caller)
+   */
+  static outputOptions(profile: EncodingProfile): string[] {
+    const options = [
+      '-c:v', profile.codec,
+      '-preset', profile.preset,
+      '-crf', String(profile.crf),
+      '-pix_fmt', profile.pixFmt,
+      '-color_primaries', profile.colorPrimaries,
+      '-color_trc', profile.colorTransfer,
+      '-colorspace', profile.colorSpace,
+    ];
+
+    if (profile.codec === 'libx265') {
+      // hvc1 tag is required by Apple players; x265 writes the color VUI itself
+      options.push(
+        '-tag:v', 'hvc1',
+        '-x265-params',
+        `colorprim=${profile.colorPrimaries}:transfer=${profile.colorTransfer}:colormatrix=${profile.colorSpace}:range=limited` +
+          (this.toDynamicRange(profile.colorTransfer) === 'sdr' ? '' : ':hdr-opt=1'),
+      );
+    }
+
+    return options;
+  }
+
+  static describe(profile: EncodingProfile): string {
+    return `${profile.name}: ${profile.codec} crf ${profile.crf}, ${profile.colorTransfer}`;
+  }
+
+  private static toDynamicRange(transfer?: string): DynamicRange {
+    switch (transfer) {
+      case 'arib-std-b67':
+        return 'hlg';
+      case 'smpte2084':
+        return 'pq';
+      default:
+        return 'sdr';
+    }
+  }
+
+  private static tagOrDefault(value: string | undefined, fallback: string): string {
+    return value && value !== 'unknown' && value !== 'reserved' ? value : fallback;
+  }
+}
@@ -0,0 +1,32 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { config } from './config';
+
+/**
+ * The ffmpeg and ffprobe fluent-ffmpeg runs: FFMPEG_PATH / FFPROBE_PATH (config.ffmpeg)
+ * when set, the bundled ffmpeg and ffprobe from PATH otherwise
+ */
+export class FfmpegBinaries {
+  private static filters: Promise<Record<string, unknown>> | null = null;
+
+  static get ffmpegPath(): string {
+    return config.ffmpeg.path || ffmpegInstaller.path;
+  }
+
+  /**
+   * Called by every module that runs ffmpeg, before its first command
+   */
+  static configure(): void {
+    ffmpeg.setFfmpegPath(this.ffmpegPath);
+    if (config.ffmpeg.probePath) {
+      ffmpeg.setFfprobePath(config.ffmpeg.probePath);
+    }
+  }
+
+  static async hasFilter(name: string): Promise<boolean> {
+    this.filters ??= new Promise((resolve) => {
+      ffmpeg.getAvailableFilters((err, filters) => resolve(err ? {} : filters));
+    });
+    return name in (await this.filters);
+  }
+}
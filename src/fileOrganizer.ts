@@ -2,20 +2,23 @@ import fs from 'fs';
 import path from 'path';
 import { config } from './config';
 import { PlatformContentGenerator } from './platformContentGenerator';
+import {
+  AllPlatformsContent,
+  PlatformContent,
+  PlatformDefinition,
+  PlatformIssue,
+  PlatformRegistry,
+} from './platformRegistry';
+import { ClaudeAnalyzer } from './claudeAnalyzer';
+import { LlmProvider, createLlmProvider } from './llmProviders';
+import { Chapters } from './chapters';
+import { Transcriber } from './transcriber';
+import { Subtitles } from './subtitles';
+import { TranscriptWindows } from './transcriptWindows';
+import { Chapter, PromptInfo, WindowSummary } from './types';
 
-interface PlatformContent {
-  hashtags: string;
-  background: string;
-  title: string;
-  description: string;
-}
-
-interface AllPlatformsContent {
-  facebook: PlatformContent;
-  linkedin: PlatformContent;
-  tiktok: PlatformContent;
-  youtube: PlatformContent;
-}
+// YouTube rejects longer descriptions; the registry limit leaves room for the chapter list
+const YOUTUBE_DESCRIPTION_MAX = 5000;
 
 export class FileOrganizer {
   private static readyVideoDir = path.join(process.cwd(), 'ready-video');
@@ -79,48 +82,221 @@ export class FileOrganizer {
     return destSrtPath;
   }
 
+  /**
+   * Copy the other subtitle formats and the rich transcript written next to the SRT
+   */
+  static copySubtitleCompanions(
+    srtPath: string,
+    projectFolder: string,
+  ): string[] {
+    const baseName = path.basename(srtPath, '.srt');
+    const dir = path.dirname(srtPath);
+    const companions = [`${baseName}.vtt`, `${baseName}.ass`, `${baseName}_transcript.json`];
+    const copied: string[] = [];
+
+    for (const fileName of companions) {
+      const sourcePath = path.join(dir, fileName);
+      if (!fs.existsSync(sourcePath)) continue;
+
+      const destPath = path.join(projectFolder, fileName);
+      fs.copyFileSync(sourcePath, destPath);
+      copied.push(destPath);
+    }
+
+    if (copied.length > 0) {
+      console.log(`✓ ${copied.map((f) => path.basename(f)).join(', ')} copied to ready-video project folder`);
+    }
+
+    return copied;
+  }
+
+  /**
+   * The registry's file name, or <name>.<language>.txt for an additional content language
+   */
+  static getPlatformFileName(platform: PlatformDefinition, language: string | null = null): string {
+    if (!language) {
+      return platform.fileName;
+    }
+    const { name, ext } = path.parse(platform.fileName);
+    return `${name}.${language}${ext}`;
+  }
+
+  /**
+   * One file per registry platform; returns file paths keyed by platform name
+   * (<name>.<language> for an additional content language)
+   */
   static savePlatformFiles(
     platformContent: AllPlatformsContent,
     projectFolder: string,
-  ): { facebook: string; linkedin: string; tiktok: string; youtube: string } {
-    const platforms = ['facebook', 'linkedin', 'tiktok', 'youtube'] as const;
-    const results: { [key: string]: string } = {};
+    platforms: PlatformDefinition[],
+    language: string | null = null,
+  ): Record<string, string> {
+    const results: Record<string, string> = {};
 
     for (const platform of platforms) {
-      const content = platformContent[platform];
-      const fileName = `${platform}.txt`;
-      const filePath = path.join(projectFolder, fileName);
+      const content = platformContent[platform.name];
+      if (!content) continue;
 
+      const fileName = this.getPlatformFileName(platform, language);
+      const filePath = path.join(projectFolder, fileName);
       const formattedContent = PlatformContentGenerator.formatPlatformFile(content);
       fs.writeFileSync(filePath, formattedContent, 'utf-8');
 
-      console.log(`✓ ${platform}.txt saved`);
-      results[platform] = filePath;
+      console.log(`✓ ${fileName} saved`);
+      results[language ? `${platform.name}.${language}` : platform.name] = filePath;
+    }
+
+    return results;
+  }
+
+  /**
+   * What the platform files were generated with (prompts) and their limit violations,
+   * so the unrepaired ones get a manual look
+   */
+  static savePlatformMetadata(
+    projectFolder: string,
+    metadata: {
+      files: Record<string, string>;
+      sourceLanguage: string | null;
+      chaptersPrompt?: PromptInfo | undefined;
+      /** One entry per content language */
+      languages: Array<{ language: string; prompt: PromptInfo; issues: PlatformIssue[] }>;
+    },
+  ): string {
+    const filePath = path.join(projectFolder, 'platform_content.json');
+    const content = {
+      createdAt: new Date().toISOString(),
+      sourceLanguage: metadata.sourceLanguage,
+      languages: Object.fromEntries(
+        metadata.languages.map(({ language, prompt, issues }) => [language, { prompt, issues }]),
+      ),
+      ...(metadata.chaptersPrompt && { chaptersPrompt: metadata.chaptersPrompt }),
+      files: Object.fromEntries(Object.entries(metadata.files).map(([name, file]) => [name, path.basename(file)])),
+    };
+    fs.writeFileSync(filePath, JSON.stringify(content, null, 2), 'utf-8');
+    console.log(`✓ platform_content.json saved`);
+
+    const issues = metadata.languages.flatMap((entry) => entry.issues);
+    const unrepaired = issues.filter((i) => !i.repaired).length;
+    if (issues.length > 0) {
+      console.log(`⚠ ${issues.length} platform limit issues, ${unrepaired} need a manual fix`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Add the chapter list at the end of the YouTube description. The chapters are kept
+   * whole; if the description no longer fits YouTube's limit it is shortened (when
+   * config.platforms.repair is on) and the overflow is returned as an issue.
+   */
+  static appendChapters(
+    youtubePath: string,
+    chapters: Chapter[],
+    repair: boolean = config.platforms.repair,
+  ): PlatformIssue | null {
+    const content = PlatformContentGenerator.parsePlatformFile(fs.readFileSync(youtubePath, 'utf-8'));
+    const issue = this.writeDescription(youtubePath, content, content.description.trim(), chapters, repair);
+    console.log(`✓ ${chapters.length} chapters added to ${path.basename(youtubePath)}`);
+    return issue;
+  }
+
+  /**
+   * Swap the chapter list at the end of the project's YouTube descriptions (the original's,
+   * or an earlier assembly's) for the assembled video's - the same list the MP4 carries.
+   * Descriptions without one are left alone. Issues go to platform_content.json.
+   * Returns the files changed.
+   */
+  static replaceChapters(
+    projectFolder: string,
+    chapters: Chapter[],
+    repair: boolean = config.platforms.repair,
+  ): string[] {
+    const metadataPath = path.join(projectFolder, 'platform_content.json');
+    if (!fs.existsSync(metadataPath)) {
+      return [];
     }
 
-    return results as {
-      facebook: string;
-      linkedin: string;
-      tiktok: string;
-      youtube: string;
+    const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as {
+      languages: Record<string, { issues: PlatformIssue[] }>;
+      files: Record<string, string>;
     };
+    const [primaryLanguage] = Object.keys(metadata.languages);
+    const changed: string[] = [];
+
+    for (const [name, fileName] of Object.entries(metadata.files)) {
+      const [platform, language = primaryLanguage] = name.split('.');
+      const youtubePath = path.join(projectFolder, fileName);
+      if (platform !== 'youtube' || !fs.existsSync(youtubePath)) continue;
+
+      const content = PlatformContentGenerator.parsePlatformFile(fs.readFileSync(youtubePath, 'utf-8'));
+      const description = content.description.trim();
+      const blockStart = this.findChapterBlock(description);
+      if (blockStart === -1) continue;
+
+      const rest = description.slice(0, blockStart).trim();
+      const issue = this.writeDescription(youtubePath, content, rest, chapters, repair);
+      if (issue && language && metadata.languages[language]) {
+        metadata.languages[language].issues.push(issue);
+      }
+      changed.push(youtubePath);
+    }
+
+    if (changed.length > 0) {
+      fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+    }
+    return changed;
+  }
+
+  /**
+   * Where the trailing chapter list ("00:00 Title" lines after a blank line) starts, or -1
+   */
+  private static findChapterBlock(description: string): number {
+    return description.search(/\n\n(?:0:)?00:00 [^\n]*(?:\n(?:\d+:)?\d{2}:\d{2} [^\n]*)*$/);
+  }
+
+  /**
+   * The description followed by the chapter list (none when chapters is empty), shortened
+   * to YouTube's limit when repair is on
+   */
+  private static writeDescription(
+    youtubePath: string,
+    content: PlatformContent,
+    description: string,
+    chapters: Chapter[],
+    repair: boolean,
+  ): PlatformIssue | null {
+    const block = chapters.length > 0 ? `\n\n${Chapters.formatYouTube(chapters)}` : '';
+    const length = description.length + block.length;
+
+    let issue: PlatformIssue | null = null;
+    let fitted = description;
+    if (length > YOUTUBE_DESCRIPTION_MAX) {
+      const room = YOUTUBE_DESCRIPTION_MAX - block.length;
+      const repaired = repair && room > 0;
+      if (repaired) fitted = PlatformRegistry.truncate(description, room);
+      issue = {
+        platform: 'youtube',
+        field: 'description',
+        message: `${length}/${YOUTUBE_DESCRIPTION_MAX} znaków z rozdziałami`,
+        repaired,
+      };
+      console.warn(`⚠ youtube description: ${issue.message} (${repaired ? 'repaired' : 'needs manual fix'})`);
+    }
+
+    const formatted = PlatformContentGenerator.formatPlatformFile({ ...content, description: `${fitted}${block}` });
+    fs.writeFileSync(youtubePath, `${formatted}\n`, 'utf-8');
+    return issue;
   }
 
   static async organizeProjectFiles(
     videoPath: string,
     audioPath: string,
     srtPath: string,
+    llm: LlmProvider = createLlmProvider(),
   ): Promise<{
     projectFolder: string;
-    files: {
-      video: string;
-      audio: string;
-      srt: string;
-      facebook: string;
-      linkedin: string;
-      tiktok: string;
-      youtube: string;
-    };
+    /** video, audio, srt and one entry per platform */
+    files: Record<string, string>;
   }> {
     console.log(`\n📁 Organizing project files...`);
 
@@ -134,18 +310,67 @@ export class FileOrganizer {
 
     // Copy SRT file
     const copiedSrtPath = this.copySRT(srtPath, projectFolder);
+    this.copySubtitleCompanions(srtPath, projectFolder);
 
     // Read SRT content for platform content generation
     const srtContent = fs.readFileSync(srtPath, 'utf-8');
+    const sourceLanguage = Transcriber.getSourceLanguage(srtPath);
 
-    // Generate platform content
-    const platformContent = await PlatformContentGenerator.generatePlatformContent(
-      srtContent,
-      path.basename(videoPath),
+    // Chapters and, for long transcripts, window summaries come from the analysis saved next to the SRT
+    const analysis = ClaudeAnalyzer.loadAnalysis(
+      path.join(path.dirname(srtPath), `${path.basename(srtPath, '.srt')}_analysis.json`),
     );
 
-    // Save platform files
-    const platformFiles = this.savePlatformFiles(platformContent, projectFolder);
+    // A transcript too long for one prompt is replaced by its window summaries
+    let input: string | WindowSummary[] = srtContent;
+    if (TranscriptWindows.shouldSplit(srtContent)) {
+      input =
+        analysis?.windows ??
+        (await ClaudeAnalyzer.summarizeWindows(Subtitles.parseSRT(srtContent), path.basename(videoPath), sourceLanguage, llm));
+    }
+
+    // Generate platform content, once per content language
+    const platforms = PlatformRegistry.load();
+    const [primaryLanguage = 'pl', ...otherLanguages] = [...new Set(config.languages.content)];
+    const platformFiles: Record<string, string> = {};
+    const generated: Array<{ language: string; prompt: PromptInfo; issues: PlatformIssue[] }> = [];
+
+    for (const language of [primaryLanguage, ...otherLanguages]) {
+      const { content, issues, prompt } = await PlatformContentGenerator.generatePlatformContent(
+        input,
+        path.basename(videoPath),
+        platforms,
+        language,
+        sourceLanguage,
+        llm,
+      );
+
+      // Save platform files
+      const suffix = language === primaryLanguage ? null : language;
+      Object.assign(platformFiles, this.savePlatformFiles(content, projectFolder, platforms, suffix));
+      generated.push({ language, prompt, issues });
+    }
+
+    // Chapter titles are in the analysis language, so they go to the YouTube description in that language
+    const chaptersLanguage = analysis?.language;
+    const youtubeLanguage =
+      chaptersLanguage && chaptersLanguage !== primaryLanguage && platformFiles[`youtube.${chaptersLanguage}`]
+        ? chaptersLanguage
+        : primaryLanguage;
+    const youtubeFile = platformFiles[youtubeLanguage === primaryLanguage ? 'youtube' : `youtube.${youtubeLanguage}`];
+    if (analysis?.chapters?.length && youtubeFile) {
+      const issue = this.appendChapters(youtubeFile, analysis.chapters);
+      if (issue) {
+        generated.find((entry) => entry.language === youtubeLanguage)?.issues.push(issue);
+      }
+    }
+
+    this.savePlatformMetadata(projectFolder, {
+      files: platformFiles,
+      sourceLanguage,
+      chaptersPrompt: analysis?.chapters?.length ? analysis.prompt : undefined,
+      languages: generated,
+    });
 
     return {
       projectFolder,
@@ -153,10 +378,7 @@ export class FileOrganizer {
         video: copiedVideoPath,
         audio: copiedAudioPath,
         srt: copiedSrtPath,
-        facebook: platformFiles.facebook,
-        linkedin: platformFiles.linkedin,
-        tiktok: platformFiles.tiktok,
-        youtube: platformFiles.youtube,
+        ...platformFiles,
       },
     };
   }
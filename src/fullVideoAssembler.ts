@@ -1,20 +1,57 @@
 import ffmpeg from 'fluent-ffmpeg';
-import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import fs from 'fs';
 import path from 'path';
 import { ApprovedHighlights } from './approvedHighlightsSelector';
-
-ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+import { config } from './config';
+import { EncodingProfile, EncodingProfiles } from './encodingProfiles';
+import { ASSET_KINDS, AssemblyTemplate, AssemblyTemplates, TimelineItem } from './assemblyTemplates';
+import { MediaInfo, MediaNormalizer, NormalizeTarget } from './mediaNormalizer';
+import { LoudnessMeasurement, LoudnessNormalizer, LoudnessPreset } from './loudnessNormalizer';
+import { MusicBed, MusicBedInfo } from './musicBed';
+import { Chapters } from './chapters';
+import { Chapter } from './types';
+import { FfmpegBinaries } from './ffmpegBinaries';
+
+FfmpegBinaries.configure();
 
 export interface AssembleResult {
   outputPath: string;
+  template: string;
   highlightsCount: number;
   highlightsDuration: string;
-  introDuration?: string;
+  /** Intro, outro, bumpers and end card together */
+  assetsDuration?: string;
   originalDuration: string;
+  /** MP4 chapters written into the output */
+  chaptersCount?: number;
+  /** Those chapters, for the YouTube description of the assembled video */
+  chapters?: Chapter[];
+  /** Time lost to transition overlaps - already subtracted from totalDuration */
+  transitionsDuration?: string;
   totalDuration: string;
 }
 
+export interface AssembleOptions {
+  template?: AssemblyTemplate;
+  /** undefined: template decides, null: no intro, path: use this file as the intro */
+  introOverride?: string | null | undefined;
+  /** Loudness preset name or 'off' (default: config.loudness.preset) */
+  loudnessPreset?: string;
+  /** Music track name, 'auto' or 'none' (default: config.music.track) */
+  music?: string;
+  /** Chapters of the original video; written into the MP4 shifted to where the original starts */
+  chapters?: Chapter[];
+}
+
+interface TimelineEntry extends TimelineItem {
+  /** Position in the assembled video, in seconds (transition overlaps included) */
+  start: number;
+  duration: number;
+  media: MediaInfo;
+  /** First loudnorm pass over the whole input */
+  loudness?: LoudnessMeasurement;
+}
+
 export class FullVideoAssembler {
   /**
    * Find approved highlights files in ready-video directory
@@ -80,25 +117,42 @@ export class FullVideoAssembler {
   }
 
   /**
-   * Assemble full video by concatenating individual highlight clips + original video
-   * Uses concat demuxer with stream copy - fast and lossless
+   * Assemble full video by concatenating the elements of an assembly template
+   * (highlights, intro, original, outro, bumpers, end card) in their order
    */
   static async assembleFullVideo(
     approved: ApprovedHighlights,
     originalVideoPath: string,
     outputDir: string,
-    introPath?: string | null,
+    options: AssembleOptions = {},
   ): Promise<AssembleResult> {
+    const template = options.template ?? AssemblyTemplates.DEFAULT;
+    const loudness = LoudnessNormalizer.getPreset(options.loudnessPreset);
+    const music = MusicBed.resolve(options.music);
     const highlightsDir = path.join(approved.sourceFolder, 'highlights');
 
     // Verify all clip files exist
-    const clipPaths: string[] = [];
+    const clips: Array<{ id: number; file: string }> = [];
     for (const clip of approved.clips) {
       const clipPath = path.join(highlightsDir, clip.file);
       if (!fs.existsSync(clipPath)) {
         throw new Error(`Brak pliku klipu: ${clip.file}`);
       }
-      clipPaths.push(clipPath);
+      clips.push({ id: clip.id, file: clipPath });
+    }
+
+    const timeline = AssemblyTemplates.buildTimeline(template, {
+      clips,
+      originalPath: originalVideoPath,
+      introOverride: options.introOverride,
+    });
+
+    // Checked before any work - quietly replacing the transitions with cuts would hide the problem
+    if (timeline.some((item) => item.transition) && !(await FfmpegBinaries.hasFilter('xfade'))) {
+      throw new Error(
+        `Szablon ${template.name} ma przejścia, a ffmpeg ${FfmpegBinaries.ffmpegPath} nie ma filtra xfade ` +
+          `(wymaga 4.3+) - ustaw FFMPEG_PATH na nowszy ffmpeg albo przejście "cut"`,
+      );
     }
 
     // Create output directory if needed
@@ -106,97 +160,166 @@ export class FullVideoAssembler {
       fs.mkdirSync(outputDir, { recursive: true });
     }
 
-    console.log(`\n🎬 Składanie pełnego filmu (wszystko na raz)...`);
-    console.log(`  Klipy highlights: ${approved.clips.length}`);
-    approved.clips.forEach((clip, i) => {
-      console.log(`    ${i + 1}. ${clip.file} (${clip.duration})`);
+    console.log(`\n🎬 Składanie pełnego filmu (szablon: ${template.name})...`);
+    timeline.forEach((item, i) => {
+      console.log(`    ${i + 1}. [${item.type}] ${path.basename(item.file)}`);
     });
-    if (introPath) {
-      console.log(`  Intro: ${path.basename(introPath)}`);
-    }
-    console.log(`  Oryginalny film: ${path.basename(originalVideoPath)}`);
 
-    // Build file list: highlights -> intro (if present) -> original
-    const allFiles = [...clipPaths];
-    if (introPath) {
-      allFiles.push(introPath);
-    }
-    allFiles.push(originalVideoPath);
+    // Clips were cut from the original, so it decides the color handling of the whole video
+    const profile = EncodingProfiles.resolve(await EncodingProfiles.probeColor(originalVideoPath));
 
-    // Output file - use .mp4 for HEVC encoding with HDR
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
     const outputFileName = `${approved.videoName}_complete_${timestamp}.mp4`;
     const outputPath = path.join(outputDir, outputFileName);
 
-    console.log(`  Łączę ${allFiles.length} plików (HEVC HDR - filter_complex)...`);
+    console.log(`  Łączę ${timeline.length} plików (${EncodingProfiles.describe(profile)} - filter_complex)...`);
+
+    // Every input is probed: normalization needs its format, xfade offsets its exact length
+    const entries: TimelineEntry[] = [];
+    let position = 0;
+    for (const item of timeline) {
+      const media = await MediaNormalizer.probe(item.file);
+      const duration = media.duration;
+      const previous = entries[entries.length - 1];
+
+      if (item.transition && previous) {
+        // A transition longer than half of either neighbour would overlap the next one
+        item.transition = {
+          ...item.transition,
+          duration: Math.min(item.transition.duration, previous.duration / 2, duration / 2),
+        };
+        position -= item.transition.duration;
+      }
+
+      const entry: TimelineEntry = { ...item, start: position, duration, media };
+      if (loudness && media.hasAudio) {
+        // Each element is brought to the target on its own - that is what evens out intro vs. footage
+        entry.loudness = await LoudnessNormalizer.measure(item.file, loudness);
+        console.log(`  🔊 ${path.basename(item.file)}: ${LoudnessNormalizer.describe(entry.loudness)}`);
+      }
+
+      entries.push(entry);
+      position += duration;
+    }
+
+    const target = MediaNormalizer.chooseTarget(await MediaNormalizer.probe(originalVideoPath), profile.pixFmt);
+    console.log(`  Format wyjściowy: ${MediaNormalizer.describe(target)}`);
+    if (music) {
+      console.log(`  🎵 Muzyka: ${MusicBed.describe(music)}`);
+    }
 
-    // Get durations before concat
-    const highlightsDuration = await this.calculateHighlightsDuration(approved.clips);
-    const introDuration = introPath ? await this.getVideoDuration(introPath) : 0;
-    const originalDuration = await this.getVideoDuration(originalVideoPath);
+    // Chapters of the original follow it to its place in the output
+    const original = entries.find((e) => e.type === 'original');
+    const chapters = original && options.chapters?.length
+      ? Chapters.shift(options.chapters, original.start, position)
+      : [];
+    let chaptersPath: string | null = null;
+    if (chapters.length > 0) {
+      chaptersPath = path.join(outputDir, `${approved.videoName}_chapters.ffmeta`);
+      fs.writeFileSync(chaptersPath, Chapters.toFFMetadata(chapters, position), 'utf-8');
+      console.log(`  📑 Rozdziały: ${chapters.length} (oryginał od ${original!.start.toFixed(1)}s)`);
+    }
 
     // Merge using filter_complex for better compatibility
-    await this.concatVideosWithFilter(allFiles, outputPath);
+    try {
+      await this.concatVideosWithFilter(entries, target, outputPath, profile, loudness, music, chaptersPath);
+    } finally {
+      if (chaptersPath) fs.rmSync(chaptersPath, { force: true });
+    }
+
+    let outputLoudness: LoudnessMeasurement | undefined;
+    if (loudness) {
+      outputLoudness = await LoudnessNormalizer.measure(outputPath, loudness);
+      console.log(`  🔊 Wynik: ${LoudnessNormalizer.describe(outputLoudness)} (cel: ${loudness.integrated} LUFS)`);
+    }
 
-    const totalDuration = highlightsDuration + introDuration + originalDuration;
+    const sumOf = (types: string[]) => entries
+      .filter((e) => types.includes(e.type))
+      .reduce((sum, e) => sum + e.duration, 0);
+    const highlightsDuration = sumOf(['highlights']);
+    const originalDuration = sumOf(['original']);
+    const assetsDuration = sumOf(ASSET_KINDS);
+    const transitionsDuration = entries.reduce((sum, e) => sum + (e.transition?.duration ?? 0), 0);
 
     // Save metadata
     const metadataPath = path.join(outputDir, `${approved.videoName}_complete_metadata.json`);
-    this.saveMetadata(
-      approved,
-      originalVideoPath,
-      outputPath,
-      highlightsDuration,
-      originalDuration,
-      metadataPath,
-      introPath ? introDuration : undefined,
-    );
+    this.saveMetadata(approved, outputPath, template, entries, metadataPath, {
+      profile,
+      target,
+      loudness,
+      outputLoudness,
+      music,
+      chapters,
+    });
 
     const result: AssembleResult = {
       outputPath,
+      template: template.name,
       highlightsCount: approved.clips.length,
       highlightsDuration: `${highlightsDuration.toFixed(1)}s`,
       originalDuration: `${originalDuration.toFixed(1)}s`,
-      totalDuration: `${totalDuration.toFixed(1)}s`,
+      totalDuration: `${position.toFixed(1)}s`,
     };
 
-    if (introPath) {
-      result.introDuration = `${introDuration.toFixed(1)}s`;
+    if (assetsDuration > 0) {
+      result.assetsDuration = `${assetsDuration.toFixed(1)}s`;
+    }
+    if (chapters.length > 0) {
+      result.chaptersCount = chapters.length;
+      result.chapters = chapters;
+    }
+    if (transitionsDuration > 0) {
+      result.transitionsDuration = `${transitionsDuration.toFixed(1)}s`;
     }
 
     return result;
   }
 
   private static concatVideosWithFilter(
-    inputFiles: string[],
+    entries: TimelineEntry[],
+    target: NormalizeTarget,
     outputPath: string,
+    profile: EncodingProfile,
+    loudness: LoudnessPreset | null,
+    music: MusicBedInfo | null,
+    chaptersPath: string | null,
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       const cmd = ffmpeg();
 
       // Add all input files
-      for (const file of inputFiles) {
-        cmd.input(file);
+      for (const entry of entries) {
+        cmd.input(entry.file);
+      }
+
+      let filterComplex = this.buildFilterGraph(entries, target, loudness);
+      let audioOut = '[outa]';
+
+      if (music) {
+        // Music is the last input, looped so it covers the whole video
+        cmd.input(music.file).inputOptions(['-stream_loop', '-1']);
+        const last = entries[entries.length - 1];
+        const duration = last ? last.start + last.duration : 0;
+        filterComplex += ';' + MusicBed.buildFilters('outa', `${entries.length}:a`, 'outm', duration, music).join(';');
+        audioOut = '[outm]';
       }
 
-      // Simple concat without scaling - all videos must be same format
-      const concatInputs = inputFiles.map((_, i) => `[${i}:v][${i}:a]`).join('');
-      const filterComplex = `${concatInputs}concat=n=${inputFiles.length}:v=1:a=1[outv][outa]`;
+      const chapterOptions: string[] = [];
+      if (chaptersPath) {
+        // FFMETADATA input after the media (and music) inputs
+        cmd.input(chaptersPath).inputOptions(['-f', 'ffmetadata']);
+        chapterOptions.push('-map_chapters', String(entries.length + (music ? 1 : 0)));
+      }
 
       cmd
         .complexFilter(filterComplex)
         .outputOptions([
           '-map', '[outv]',
-          '-map', '[outa]',
-          '-c:v libx265',
-          '-preset fast',
-          '-crf 15',
-          '-tag:v hvc1',
-          '-pix_fmt yuv420p10le',
-          '-x265-params',
-          'colorprim=bt2020:transfer=arib-std-b67:colormatrix=bt2020nc:range=limited:hdr-opt=1',
-          '-c:a aac',
-          '-b:a 192k',
+          '-map', audioOut,
+          ...EncodingProfiles.outputOptions(profile),
+          '-c:a', config.encoding.audioCodec,
+          '-b:a', config.encoding.audioBitrate,
+          ...chapterOptions,
         ])
         .output(outputPath)
         .on('start', (cmdLine) => {
@@ -214,64 +337,138 @@ export class FullVideoAssembler {
     });
   }
 
-  private static calculateHighlightsDuration(clips: Array<{ duration: string }>): Promise<number> {
-    const totalSeconds = clips.reduce((sum, clip) => {
-      const seconds = parseFloat(clip.duration.replace('s', ''));
-      return sum + seconds;
-    }, 0);
-    return Promise.resolve(totalSeconds);
-  }
+  /**
+   * Normalize every input to the target, then one concat over all of them when there
+   * are no transitions; otherwise a chain that joins each input to the running result
+   * with xfade/acrossfade or a two-input concat
+   */
+  private static buildFilterGraph(
+    entries: TimelineEntry[],
+    target: NormalizeTarget,
+    loudness: LoudnessPreset | null,
+  ): string {
+    const filters = entries.flatMap((entry, i) => {
+      const loudnorm = loudness && entry.loudness ? LoudnessNormalizer.buildFilter(loudness, entry.loudness) : undefined;
+      return MediaNormalizer.buildInputFilters(i, entry.media, target, loudnorm);
+    });
 
-  private static getVideoDuration(videoPath: string): Promise<number> {
-    return new Promise((resolve, reject) => {
-      ffmpeg.ffprobe(videoPath, (err, metadata) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(metadata.format.duration || 0);
-        }
-      });
+    if (entries.every((e) => !e.transition)) {
+      const concatInputs = entries.map((_, i) => `[v${i}][a${i}]`).join('');
+      filters.push(`${concatInputs}concat=n=${entries.length}:v=1:a=1[outv][outa]`);
+      return filters.join(';');
+    }
+
+    let video = 'v0';
+    let audio = 'a0';
+
+    entries.forEach((entry, i) => {
+      if (i === 0) return;
+
+      const last = i === entries.length - 1;
+      const outVideo = last ? 'outv' : `vx${i}`;
+      const outAudio = last ? 'outa' : `ax${i}`;
+
+      if (entry.transition) {
+        const duration = entry.transition.duration.toFixed(3);
+        // The transition starts where this entry starts in the output
+        filters.push(
+          `[${video}][v${i}]xfade=transition=${entry.transition.type}:duration=${duration}:offset=${entry.start.toFixed(3)}[${outVideo}]`,
+          `[${audio}][a${i}]acrossfade=d=${duration}[${outAudio}]`,
+        );
+      } else {
+        filters.push(`[${video}][${audio}][v${i}][a${i}]concat=n=2:v=1:a=1[${outVideo}][${outAudio}]`);
+      }
+
+      video = outVideo;
+      audio = outAudio;
     });
+
+    return filters.join(';');
   }
 
   private static saveMetadata(
     approved: ApprovedHighlights,
-    originalVideoPath: string,
     outputPath: string,
-    highlightsDuration: number,
-    originalDuration: number,
+    template: AssemblyTemplate,
+    entries: TimelineEntry[],
     metadataPath: string,
-    introDuration?: number,
+    output: {
+      profile: EncodingProfile;
+      target: NormalizeTarget;
+      loudness: LoudnessPreset | null;
+      outputLoudness: LoudnessMeasurement | undefined;
+      music: MusicBedInfo | null;
+      chapters: Chapter[];
+    },
   ): void {
-    const totalDuration = highlightsDuration + (introDuration || 0) + originalDuration;
+    const { profile, target, loudness, outputLoudness, music, chapters } = output;
+    const last = entries[entries.length - 1];
+    const total = last ? last.start + last.duration : 0;
+    const transitions = entries.reduce((sum, e) => sum + (e.transition?.duration ?? 0), 0);
+    const highlights = entries.filter((e) => e.type === 'highlights');
+    const original = entries.find((e) => e.type === 'original');
+    const intro = entries.find((e) => e.type === 'intro');
 
     const metadata: Record<string, unknown> = {
       videoName: approved.videoName,
       completeFile: path.basename(outputPath),
       createdAt: new Date().toISOString(),
+      template: template.name,
+      encodingProfile: profile,
+      normalization: target,
+      ...(loudness && {
+        loudness: {
+          preset: loudness.name,
+          target: loudness,
+          output: outputLoudness,
+        },
+      }),
+      ...(music && { music: { ...music, file: path.basename(music.file) } }),
       structure: {
         highlights: {
           count: approved.clips.length,
-          duration: `${highlightsDuration.toFixed(1)}s`,
+          duration: `${highlights.reduce((sum, e) => sum + e.duration, 0).toFixed(1)}s`,
           clips: approved.clips.map((clip, index) => ({
             order: index + 1,
             id: clip.id,
             file: clip.file,
             duration: clip.duration,
             text: clip.text,
+            sourceSegmentIds: clip.sourceSegmentIds ?? [clip.id],
           })),
         },
-        ...(introDuration !== undefined && {
+        ...(intro && {
           intro: {
-            duration: `${introDuration.toFixed(1)}s`,
+            file: path.basename(intro.file),
+            duration: `${intro.duration.toFixed(1)}s`,
+          },
+        }),
+        ...(original && {
+          original: {
+            file: path.basename(original.file),
+            start: `${original.start.toFixed(1)}s`,
+            duration: `${original.duration.toFixed(1)}s`,
           },
         }),
-        original: {
-          file: path.basename(originalVideoPath),
-          duration: `${originalDuration.toFixed(1)}s`,
-        },
       },
-      totalDuration: `${totalDuration.toFixed(1)}s`,
+      // Every element in playback order, with its position in the output
+      timeline: entries.map((entry, index) => ({
+        order: index + 1,
+        type: entry.type,
+        file: path.basename(entry.file),
+        start: `${entry.start.toFixed(1)}s`,
+        duration: `${entry.duration.toFixed(1)}s`,
+        ...(entry.loudness && { loudness: entry.loudness }),
+        ...(entry.transition && {
+          transition: { type: entry.transition.type, duration: `${entry.transition.duration.toFixed(2)}s` },
+        }),
+      })),
+      ...(chapters.length > 0 && {
+        chapters: chapters.map((c) => ({ start: `${c.start.toFixed(1)}s`, title: c.title })),
+        youtubeChapters: Chapters.formatYouTube(chapters),
+      }),
+      ...(transitions > 0 && { transitionsDuration: `${transitions.toFixed(1)}s` }),
+      totalDuration: `${total.toFixed(1)}s`,
     };
 
     fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
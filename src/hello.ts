@@ -1,5 +1,6 @@
 import readline from 'readline';
 import { Agent } from './agent';
+import { Languages } from './languages';
 
 const agent = new Agent();
 
@@ -12,93 +13,145 @@ interface MenuOption {
 const menuOptions: MenuOption[] = [
   {
     key: '1',
-    label: 'Uruchom cały proces od nowa',
+    label: Languages.ui({
+      pl: 'Wznów cały proces (pomija aktualne kroki)',
+      en: 'Resume the whole process (skips up-to-date steps)',
+    }),
     action: async () => {
       await agent.processAllVideos();
     },
   },
+  {
+    key: 'r',
+    label: Languages.ui({ pl: 'Uruchom cały proces od nowa', en: 'Run the whole process from scratch' }),
+    action: async () => {
+      await agent.processAllVideos({ overwrite: true });
+    },
+  },
   {
     key: '2',
-    label: 'Tylko ekstrakcja audio z wideo',
+    label: Languages.ui({ pl: 'Tylko ekstrakcja audio z wideo', en: 'Only extract audio from video' }),
     action: async () => {
       await agent.runStep('extract');
     },
   },
   {
     key: '3',
-    label: 'Tylko transkrypcja (audio → SRT)',
+    label: Languages.ui({ pl: 'Tylko transkrypcja (audio → SRT)', en: 'Only transcribe (audio → SRT)' }),
     action: async () => {
       await agent.runStep('transcribe');
     },
   },
   {
     key: '4',
-    label: 'Tylko analiza Claude (SRT → JSON)',
+    label: Languages.ui({ pl: 'Tylko analiza Claude (SRT → JSON)', en: 'Only Claude analysis (SRT → JSON)' }),
     action: async () => {
       await agent.runStep('analyze');
     },
   },
   {
     key: '5',
-    label: 'Tylko organizacja plików + treści platform',
+    label: Languages.ui({ pl: 'Tylko organizacja plików + treści platform', en: 'Only organize files + platform content' }),
     action: async () => {
       await agent.runStep('organize');
     },
   },
   {
     key: '6',
-    label: 'Wybór highlights (fragmenty wideo)',
+    label: Languages.ui({ pl: 'Wybór highlights (fragmenty wideo)', en: 'Select highlights (video fragments)' }),
     action: async () => {
       await agent.runStep('highlights');
     },
   },
+  {
+    key: 'a',
+    label: Languages.ui({ pl: 'Wybór highlights z propozycjami Claude', en: 'Select highlights with Claude suggestions' }),
+    action: async () => {
+      await agent.runStep('highlights', { suggest: true });
+    },
+  },
   {
     key: '7',
-    label: 'Wytnij klipy z highlights',
+    label: Languages.ui({ pl: 'Wytnij klipy z highlights', en: 'Cut clips from highlights' }),
     action: async () => {
       await agent.runStep('cut-highlights');
     },
   },
   {
     key: '8',
-    label: 'Zatwierdź highlights do filmu',
+    label: Languages.ui({ pl: 'Zatwierdź highlights do filmu', en: 'Approve highlights for the video' }),
     action: async () => {
       await agent.runStep('approve-highlights');
     },
   },
   {
     key: '9',
-    label: 'Połącz film końcowy',
+    label: Languages.ui({ pl: 'Połącz film końcowy', en: 'Assemble the final video' }),
     action: async () => {
       await agent.runStep('assemble-full');
     },
   },
+  {
+    key: 'm',
+    label: Languages.ui({ pl: 'Generuj miniatury', en: 'Generate thumbnails' }),
+    action: async () => {
+      await agent.runStep('thumbnails');
+    },
+  },
+  {
+    key: 'k',
+    label: Languages.ui({ pl: 'Pokaż cache (Whisper/Claude)', en: 'Show the cache (Whisper/Claude)' }),
+    action: async () => {
+      await agent.cache('list');
+    },
+  },
+  {
+    key: 'x',
+    label: Languages.ui({ pl: 'Unieważnij wpisy cache', en: 'Invalidate cache entries' }),
+    action: async () => {
+      await agent.cache('invalidate');
+    },
+  },
+  {
+    key: 'p',
+    label: Languages.ui({ pl: 'Usuń nieużywane wpisy cache', en: 'Prune unused cache entries' }),
+    action: async () => {
+      await agent.cache('prune');
+    },
+  },
+  {
+    key: 'z',
+    label: Languages.ui({ pl: 'Koszt API w tym miesiącu', en: 'API cost this month' }),
+    action: async () => {
+      agent.usage();
+    },
+  },
   {
     key: 'u',
-    label: 'Wyczyść folder upload',
+    label: Languages.ui({ pl: 'Wyczyść folder upload', en: 'Clean the upload folder' }),
     action: async () => {
       await agent.clean('upload');
     },
   },
   {
     key: 'o',
-    label: 'Wyczyść foldery wyjściowe',
+    label: Languages.ui({ pl: 'Wyczyść foldery wyjściowe', en: 'Clean the output folders' }),
     action: async () => {
       await agent.clean('output');
     },
   },
   {
     key: 'c',
-    label: 'Wyczyść wszystko',
+    label: Languages.ui({ pl: 'Wyczyść wszystko', en: 'Clean everything' }),
     action: async () => {
       await agent.clean('all');
     },
   },
   {
     key: '0',
-    label: 'Wyjdź',
+    label: Languages.ui({ pl: 'Wyjdź', en: 'Exit' }),
     action: async () => {
-      console.log('👋 Do zobaczenia!');
+      console.log(Languages.ui({ pl: '👋 Do zobaczenia!', en: '👋 See you!' }));
       process.exit(0);
     },
   },
@@ -106,7 +159,10 @@ const menuOptions: MenuOption[] = [
 
 function printMenu(): void {
   console.log('\n╔══════════════════════════════════════════════════╗');
-  console.log('║           🎬 VIDE-AGENT - Menu główne            ║');
+  console.log(Languages.ui({
+    pl: '║           🎬 VIDE-AGENT - Menu główne            ║',
+    en: '║           🎬 VIDE-AGENT - Main menu              ║',
+  }));
   console.log('╠══════════════════════════════════════════════════╣');
 
   for (const option of menuOptions) {
@@ -120,7 +176,7 @@ function printMenu(): void {
 
 async function promptUser(rl: readline.Interface): Promise<string> {
   return new Promise((resolve) => {
-    rl.question('Wybierz opcję: ', (answer) => {
+    rl.question(Languages.ui({ pl: 'Wybierz opcję: ', en: 'Choose an option: ' }), (answer) => {
       resolve(answer.trim());
     });
   });
@@ -134,7 +190,7 @@ async function main(): Promise<void> {
 
   agent.setReadlineInterface(rl);
 
-  console.log('🚀 Witaj w VIDE-AGENT!');
+  console.log(Languages.ui({ pl: '🚀 Witaj w VIDE-AGENT!', en: '🚀 Welcome to VIDE-AGENT!' }));
 
   while (true) {
     printMenu();
@@ -147,15 +203,19 @@ async function main(): Promise<void> {
       try {
         await selectedOption.action();
       } catch (err) {
-        console.error(`\n✗ Błąd: ${err instanceof Error ? err.message : err}`);
+        const label = Languages.ui({ pl: 'Błąd', en: 'Error' });
+        console.error(`\n✗ ${label}: ${err instanceof Error ? err.message : err}`);
       }
 
       if (choice !== '0') {
-        console.log('\n✓ Operacja zakończona. Naciśnij Enter, aby kontynuować...');
+        console.log(Languages.ui({
+          pl: '\n✓ Operacja zakończona. Naciśnij Enter, aby kontynuować...',
+          en: '\n✓ Done. Press Enter to continue...',
+        }));
         await promptUser(rl);
       }
     } else {
-      console.log('⚠ Nieprawidłowy wybór. Spróbuj ponownie.');
+      console.log(Languages.ui({ pl: '⚠ Nieprawidłowy wybór. Spróbuj ponownie.', en: '⚠ Invalid choice. Try again.' }));
     }
   }
 }
@@ -0,0 +1,145 @@
+import { config } from './config';
+import { SubtitleCue, Subtitles } from './subtitles';
+import { PromptTemplates } from './promptTemplates';
+import { Languages } from './languages';
+import { LlmProvider, createLlmProvider } from './llmProviders';
+import { PlatformRegistry } from './platformRegistry';
+import { Schema, StructuredOutput } from './structuredOutput';
+import { PromptInfo } from './types';
+
+export interface HighlightCandidate {
+  rank: number;
+  startTime: string;
+  endTime: string;
+  /** Consecutive SRT segments the candidate spans */
+  segmentIds: number[];
+  /** 1-10, how well the fragment grabs attention in the first seconds */
+  hookScore: number;
+  reason: string;
+  platform: string;
+}
+
+export interface HighlightSuggestions {
+  candidates: HighlightCandidate[];
+  prompt: PromptInfo;
+}
+
+interface RawCandidate {
+  startSegment: number;
+  endSegment: number;
+  hookScore: number;
+  reason: string;
+  platform: string;
+}
+
+export class HighlightSuggester {
+  static async suggestHighlights(
+    cues: SubtitleCue[],
+    videoName: string,
+    maxCandidates: number = config.highlights.maxSuggestions,
+    llm: LlmProvider = createLlmProvider(),
+  ): Promise<HighlightSuggestions> {
+    console.log(`🤖 Claude szuka highlights: ${videoName}`);
+
+    const platformNames = PlatformRegistry.load().map((p) => p.name);
+    const prompt = PromptTemplates.render('highlight-suggestions', {
+      maxCandidates,
+      platformNames: platformNames.join(', '),
+      transcript: Subtitles.serializeSRT(cues),
+      language: Languages.name(config.languages.analysis),
+    });
+
+    const cueIds = new Set(cues.map((c) => c.id));
+    const { data: raw } = await StructuredOutput.request<RawCandidate[]>(llm, {
+      task: `highlight suggestions ${videoName}`,
+      prompt: prompt.text,
+      promptInfo: prompt.info,
+      schema: this.responseSchema(platformNames),
+      maxTokens: config.claude.budgets.highlights,
+      check: (data) =>
+        data.flatMap((item, index) =>
+          [item.startSegment, item.endSegment]
+            .filter((id) => !cueIds.has(id))
+            .map((id) => `$[${index}]: segment ${id} nie istnieje w transkrypcji`),
+        ),
+    });
+
+    const candidates = this.toCandidates(raw, cues).slice(0, maxCandidates);
+
+    console.log(`✓ Claude zaproponował ${candidates.length} highlight(ów)`);
+    return { candidates, prompt: prompt.info };
+  }
+
+  private static responseSchema(platformNames: string[]): Schema {
+    return {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          startSegment: { type: 'number', integer: true, min: 1 },
+          endSegment: { type: 'number', integer: true, min: 1 },
+          hookScore: { type: 'number', min: 1, max: 10 },
+          reason: { type: 'string', minLength: 1 },
+          platform: { type: 'string', enum: platformNames },
+        },
+      },
+      // An empty list is never the answer - it goes back to Claude like any invalid one
+      minItems: 1,
+    };
+  }
+
+  /**
+   * Drop candidates pointing at missing segments or overlapping a better one,
+   * then rank by hook score
+   */
+  private static toCandidates(raw: RawCandidate[], cues: SubtitleCue[]): HighlightCandidate[] {
+    const cueIds = new Set(cues.map((c) => c.id));
+    const taken = new Set<number>();
+    const candidates: HighlightCandidate[] = [];
+
+    // Already validated against the response schema
+    const sorted = [...raw].sort((a, b) => b.hookScore - a.hookScore);
+
+    for (const item of sorted) {
+      const from = Math.min(item.startSegment, item.endSegment);
+      const to = Math.max(item.startSegment, item.endSegment);
+      const segmentIds: number[] = [];
+      for (let id = from; id <= to; id++) {
+        if (cueIds.has(id)) segmentIds.push(id);
+      }
+
+      if (segmentIds.length === 0 || segmentIds.some((id) => taken.has(id))) {
+        continue;
+      }
+      segmentIds.forEach((id) => taken.add(id));
+
+      const covered = cues.filter((c) => segmentIds.includes(c.id));
+      const span = Subtitles.merge(covered);
+
+      candidates.push({
+        rank: candidates.length + 1,
+        startTime: Subtitles.formatTimestamp(span.start, '.'),
+        endTime: Subtitles.formatTimestamp(span.end, '.'),
+        segmentIds,
+        hookScore: Math.round(item.hookScore),
+        reason: item.reason,
+        platform: item.platform,
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Selection string (same syntax as the manual prompt) with one group per candidate
+   */
+  static toSelection(candidates: HighlightCandidate[]): string {
+    return candidates
+      .map((c) => {
+        const first = c.segmentIds[0];
+        const last = c.segmentIds[c.segmentIds.length - 1];
+        return first === last ? `[${first}]` : `[${first}-${last}]`;
+      })
+      .join(',');
+  }
+}
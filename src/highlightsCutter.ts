@@ -1,16 +1,32 @@
 import ffmpeg from 'fluent-ffmpeg';
-import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import fs from 'fs';
 import path from 'path';
 import { HighlightsResult, Highlight } from './highlightsSelector';
+import { Subtitles } from './subtitles';
+import { config } from './config';
+import { EncodingProfile, EncodingProfiles } from './encodingProfiles';
+import { LoudnessNormalizer, LoudnessPreset, LoudnessReport } from './loudnessNormalizer';
+import { MediaNormalizer } from './mediaNormalizer';
+import { MusicBed, MusicBedInfo } from './musicBed';
+import { FfmpegBinaries } from './ffmpegBinaries';
 
-ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+FfmpegBinaries.configure();
 
 export interface CutResult {
   highlightId: number;
   outputPath: string;
   duration: string;
   text: string;
+  sourceSegmentIds: number[];
+  loudness?: LoudnessReport;
+  music?: MusicBedInfo;
+}
+
+export interface CutOptions {
+  /** Loudness preset name or 'off' (default: config.loudness.preset) */
+  loudnessPreset?: string;
+  /** Music track name, 'auto' or 'none' (default: config.music.track) */
+  music?: string;
 }
 
 export class HighlightsCutter {
@@ -18,6 +34,7 @@ export class HighlightsCutter {
     videoPath: string,
     highlights: HighlightsResult,
     outputDir: string,
+    options: CutOptions = {},
   ): Promise<CutResult[]> {
     const results: CutResult[] = [];
 
@@ -27,7 +44,22 @@ export class HighlightsCutter {
       fs.mkdirSync(highlightsDir, { recursive: true });
     }
 
-    console.log(`\n✂️  Wycinanie ${highlights.highlights.length} highlight(ów) (HEVC HDR - precyzyjne cięcie)...`);
+    const profile = EncodingProfiles.resolve(await EncodingProfiles.probeColor(videoPath));
+    // A silent source has no [0:a] to normalize or mix the music under
+    const { hasAudio } = await MediaNormalizer.probe(videoPath);
+    const loudness = hasAudio ? LoudnessNormalizer.getPreset(options.loudnessPreset) : null;
+    const music = MusicBed.resolve(options.music);
+
+    console.log(`\n✂️  Wycinanie ${highlights.highlights.length} highlight(ów) (${EncodingProfiles.describe(profile)})...`);
+    if (!hasAudio) {
+      console.log(`🔇 Film bez ścieżki dźwiękowej${music ? ' - klipy dostaną samą muzykę' : ''}`);
+    }
+    if (loudness) {
+      console.log(`🔊 Normalizacja głośności: ${loudness.name} (${loudness.integrated} LUFS)`);
+    }
+    if (music) {
+      console.log(`🎵 Muzyka: ${MusicBed.describe(music)}`);
+    }
 
     for (const highlight of highlights.highlights) {
       try {
@@ -36,6 +68,10 @@ export class HighlightsCutter {
           highlight,
           highlightsDir,
           highlights.videoName,
+          profile,
+          loudness,
+          music,
+          hasAudio,
         );
         results.push(result);
         console.log(`✓ Wycięto highlight #${highlight.id}: ${path.basename(result.outputPath)}`);
@@ -46,86 +82,122 @@ export class HighlightsCutter {
 
     // Save metadata JSON
     const metadataPath = path.join(highlightsDir, 'highlights_metadata.json');
-    this.saveMetadata(results, highlights, metadataPath);
+    this.saveMetadata(results, highlights, profile, loudness, music, metadataPath);
 
     return results;
   }
 
-  private static cutSingleHighlight(
+  private static async cutSingleHighlight(
     videoPath: string,
     highlight: Highlight,
     outputDir: string,
     videoName: string,
+    profile: EncodingProfile,
+    loudness: LoudnessPreset | null,
+    music: MusicBedInfo | null,
+    hasAudio: boolean,
   ): Promise<CutResult> {
-    return new Promise((resolve, reject) => {
-      // Use .mp4 for HEVC encoding with HDR
-      const outputFileName = `${videoName}_highlight_${highlight.id.toString().padStart(2, '0')}.mp4`;
-      const outputPath = path.join(outputDir, outputFileName);
+    const outputFileName = `${videoName}_highlight_${highlight.id.toString().padStart(2, '0')}.mp4`;
+    const outputPath = path.join(outputDir, outputFileName);
+
+    // Refined cut times when available, raw SRT times otherwise
+    const startSeconds = Subtitles.parseTimestamp(highlight.cutStartTime ?? highlight.startTime);
+    const endSeconds = Subtitles.parseTimestamp(highlight.cutEndTime ?? highlight.endTime);
+    const duration = endSeconds - startSeconds;
 
-      const startSeconds = this.timeToSeconds(highlight.startTime);
-      const endSeconds = this.timeToSeconds(highlight.endTime);
-      const duration = endSeconds - startSeconds;
+    // First loudnorm pass over exactly the fragment being cut
+    const measured = loudness
+      ? await LoudnessNormalizer.measure(videoPath, loudness, { start: startSeconds, duration })
+      : null;
 
-      // Re-encode to HEVC for precise cutting with HDR preservation
-      ffmpeg(videoPath)
+    await new Promise<void>((resolve, reject) => {
+      const cmd = ffmpeg(videoPath)
         .setStartTime(startSeconds)
-        .setDuration(duration)
+        .setDuration(duration);
+
+      const speechFilters = loudness && measured
+        ? [
+            LoudnessNormalizer.buildFilter(loudness, measured),
+            // Back from loudnorm's internal 192 kHz; older loudnorm drops the channel layout, so set it again
+            `aresample=${config.normalization.sampleRate}`,
+            `aformat=channel_layouts=${config.normalization.channelLayout}`,
+          ]
+        : [];
+
+      if (music) {
+        // Looped so that any clip length can be trimmed from it
+        cmd.input(music.file).inputOptions(['-stream_loop', '-1']);
+        const { sampleRate, channelLayout } = config.normalization;
+        cmd.complexFilter([
+          hasAudio
+            ? `[0:a]${speechFilters.length > 0 ? speechFilters.join(',') : 'anull'}[speech]`
+            : // Silence as the sidechain key - the music plays on its own, never ducked
+              `anullsrc=channel_layout=${channelLayout}:sample_rate=${sampleRate},atrim=0:${duration.toFixed(3)}[speech]`,
+          ...MusicBed.buildFilters('speech', '1:a', 'aout', duration, music),
+        ]);
+        cmd.outputOptions(['-map', '0:v', '-map', '[aout]']);
+      } else if (speechFilters.length > 0) {
+        cmd.audioFilters(speechFilters);
+      }
+
+      // Re-encode for frame-accurate cutting, keeping the source's color characteristics
+      cmd
         .output(outputPath)
         .outputOptions([
-          '-c:v libx265',
-          '-preset fast',
-          '-crf 15',
-          '-tag:v hvc1',
-          '-pix_fmt yuv420p10le',
-          '-x265-params',
-          'colorprim=bt2020:transfer=arib-std-b67:colormatrix=bt2020nc:range=limited:hdr-opt=1',
-          '-c:a aac',
-          '-b:a 192k',
+          ...EncodingProfiles.outputOptions(profile),
+          '-c:a', config.encoding.audioCodec,
+          '-b:a', config.encoding.audioBitrate,
         ])
-        .on('end', () => {
-          resolve({
-            highlightId: highlight.id,
-            outputPath,
-            duration: `${duration.toFixed(1)}s`,
-            text: highlight.text,
-          });
-        })
+        .on('end', () => resolve())
         .on('error', (err) => {
           reject(err);
         })
         .run();
     });
-  }
 
-  private static timeToSeconds(time: string): number {
-    // Format: HH:MM:SS.mmm or HH:MM:SS,mmm
-    const normalized = time.replace(',', '.');
-    const parts = normalized.split(':');
+    const result: CutResult = {
+      highlightId: highlight.id,
+      outputPath,
+      duration: `${duration.toFixed(1)}s`,
+      text: highlight.text,
+      sourceSegmentIds: highlight.sourceSegmentIds ?? [highlight.id],
+    };
+
+    if (music) {
+      result.music = { ...music, file: path.basename(music.file) };
+    }
 
-    if (parts.length === 3) {
-      const hours = parseFloat(parts[0]);
-      const minutes = parseFloat(parts[1]);
-      const seconds = parseFloat(parts[2]);
-      return hours * 3600 + minutes * 60 + seconds;
+    if (loudness && measured) {
+      const output = await LoudnessNormalizer.measure(outputPath, loudness);
+      console.log(`  🔊 ${LoudnessNormalizer.describe(measured)} → ${LoudnessNormalizer.describe(output)}`);
+      result.loudness = { preset: loudness.name, input: measured, output };
     }
 
-    return 0;
+    return result;
   }
 
   private static saveMetadata(
     results: CutResult[],
     highlights: HighlightsResult,
+    profile: EncodingProfile,
+    loudness: LoudnessPreset | null,
+    music: MusicBedInfo | null,
     outputPath: string,
   ): void {
     const metadata = {
       videoName: highlights.videoName,
       createdAt: new Date().toISOString(),
+      encodingProfile: profile,
+      ...(loudness && { loudnessTarget: loudness }),
       totalHighlights: results.length,
       clips: results.map((r) => ({
         id: r.highlightId,
         file: path.basename(r.outputPath),
         duration: r.duration,
         text: r.text,
+        sourceSegmentIds: r.sourceSegmentIds,
+        ...(r.loudness && { loudness: r.loudness }),
+        ...(r.music && { music: r.music }),
       })),
     };
 
@@ -1,18 +1,47 @@
 import fs from 'fs';
 import path from 'path';
 import readline from 'readline';
+import { config } from './config';
+import { Languages } from './languages';
+import { Subtitles } from './subtitles';
+import { HighlightCandidate, HighlightSuggester } from './highlightSuggester';
+import { BoundaryRefinement } from './boundaryRefiner';
+import { LlmProvider } from './llmProviders';
+import { PromptInfo } from './types';
 
 export interface Highlight {
   id: number;
   startTime: string;
   endTime: string;
   text: string;
+  /** SRT segments the highlight spans (older files: just [id]) */
+  sourceSegmentIds?: number[];
+  /** Padded / silence-snapped cut times, set by the cut step */
+  cutStartTime?: string;
+  cutEndTime?: string;
 }
 
 export interface HighlightsResult {
   videoName: string;
   highlights: Highlight[];
   createdAt: string;
+  /** Claude's proposals shown to the user, kept for reference */
+  suggestions?: HighlightCandidate[];
+  /** Prompt the suggestions came from */
+  suggestionsPrompt?: PromptInfo;
+  /** Settings the cut times were refined with */
+  boundaries?: BoundaryRefinement;
+}
+
+export interface SelectHighlightsOptions {
+  /** Preset answer - skips the prompt. "suggested" takes Claude's proposals as they are. */
+  selection?: string;
+  /** Ask Claude for ranked candidates and pre-fill the selection with them */
+  suggest?: boolean;
+  /** Join adjacent selected segments into one highlight (default: config.highlights.mergeAdjacent) */
+  mergeAdjacent?: boolean;
+  /** Backend for the suggestions (default: config.claude.provider) */
+  llm?: LlmProvider;
 }
 
 interface SrtSegment {
@@ -24,137 +53,368 @@ interface SrtSegment {
 
 export class HighlightsSelector {
   private static parseSRT(srtContent: string): SrtSegment[] {
-    const segments: SrtSegment[] = [];
-    const blocks = srtContent.trim().split(/\n\n+/);
-
-    for (const block of blocks) {
-      const lines = block.split('\n');
-      if (lines.length >= 3) {
-        const id = parseInt(lines[0], 10);
-        const timeMatch = lines[1].match(
-          /(\d{2}:\d{2}:\d{2},\d{3})\s*-->\s*(\d{2}:\d{2}:\d{2},\d{3})/,
-        );
-
-        if (timeMatch) {
-          const text = lines.slice(2).join(' ').trim();
-          segments.push({
-            id,
-            startTime: timeMatch[1].replace(',', '.'),
-            endTime: timeMatch[2].replace(',', '.'),
-            text,
-          });
-        }
-      }
-    }
-
-    return segments;
+    return Subtitles.parseSRT(srtContent).map((cue) => ({
+      id: cue.id,
+      startTime: Subtitles.formatTimestamp(cue.start, '.'),
+      endTime: Subtitles.formatTimestamp(cue.end, '.'),
+      text: cue.text.replace(/\n/g, ' '),
+    }));
   }
 
   static async selectHighlights(
     srtPath: string,
-    rl: readline.Interface,
+    rl: readline.Interface | null,
+    options: SelectHighlightsOptions = {},
   ): Promise<HighlightsResult | null> {
     const srtContent = fs.readFileSync(srtPath, 'utf-8');
     const segments = this.parseSRT(srtContent);
     const baseName = path.basename(srtPath, '.srt');
 
     if (segments.length === 0) {
-      console.log('ℹ️  Brak segmentów w pliku SRT');
+      console.log(Languages.ui({ pl: 'ℹ️  Brak segmentów w pliku SRT', en: 'ℹ️  No segments in the SRT file' }));
       return null;
     }
 
-    console.log(`\n📝 Wybierz highlights dla: ${baseName}`);
-    console.log('─'.repeat(60));
-    console.log('Dostępne segmenty:\n');
+    const suggest = options.suggest ?? config.highlights.aiSuggestions;
+    let suggestions: HighlightCandidate[] = [];
+    let suggestionsPrompt: PromptInfo | undefined;
 
-    for (const segment of segments) {
-      const timeDisplay = `[${segment.startTime} - ${segment.endTime}]`;
-      console.log(`  ${segment.id.toString().padStart(2)}. ${timeDisplay}`);
-      console.log(`      "${segment.text.substring(0, 80)}${segment.text.length > 80 ? '...' : ''}"\n`);
+    if (suggest) {
+      try {
+        ({ candidates: suggestions, prompt: suggestionsPrompt } = await HighlightSuggester.suggestHighlights(
+          Subtitles.parseSRT(srtContent),
+          baseName,
+          config.highlights.maxSuggestions,
+          options.llm,
+        ));
+      } catch (err) {
+        // Taken as they are - without them there is nothing to select, so the step fails
+        if (options.selection?.trim().toLowerCase() === 'suggested') {
+          throw err;
+        }
+        console.warn(Languages.ui({
+          pl: `⚠ Nie udało się pobrać propozycji Claude: ${err}`,
+          en: `⚠ Failed to get Claude's suggestions: ${err}`,
+        }));
+      }
     }
 
-    console.log('─'.repeat(60));
-    console.log('Instrukcje:');
-    console.log('  - Wpisz numery segmentów oddzielone przecinkami (np. 1,3,5,8)');
-    console.log('  - Wpisz zakres używając myślnika (np. 1-5)');
-    console.log('  - Możesz łączyć oba formaty (np. 1-3,7,10-12)');
-    console.log('  - Wpisz "all" aby wybrać wszystkie');
-    console.log('  - Wpisz "skip" aby pominąć ten plik');
-    console.log('');
+    const prefill = HighlightSuggester.toSelection(suggestions);
+    let answer: string;
 
-    const answer = await this.prompt(rl, 'Twój wybór: ');
+    if (options.selection !== undefined) {
+      answer = options.selection.trim();
+      if (answer.toLowerCase() === 'suggested') {
+        // An empty answer would read as "nothing selected" and the video as skipped
+        if (!prefill) {
+          throw new Error(Languages.ui({
+            pl: 'Claude nie zaproponował żadnego highlightu do wyboru "suggested"',
+            en: 'Claude suggested no highlights for the "suggested" selection',
+          }));
+        }
+        answer = prefill;
+      }
+      console.log(Languages.ui({
+        pl: `\n📝 Highlights dla: ${baseName} (wybór: ${answer || 'brak'})`,
+        en: `\n📝 Highlights for: ${baseName} (selection: ${answer || 'none'})`,
+      }));
+    } else if (rl) {
+      answer = await this.promptForSelection(rl, baseName, segments, suggestions, prefill);
+    } else {
+      throw new Error(Languages.ui({
+        pl: 'Brak wyboru segmentów i interfejsu readline',
+        en: 'No segment selection and no readline interface',
+      }));
+    }
 
     if (answer.toLowerCase() === 'skip') {
-      console.log('⏭ Pominięto');
+      console.log(Languages.ui({ pl: '⏭ Pominięto', en: '⏭ Skipped' }));
       return null;
     }
 
-    const selectedIds = this.parseSelection(answer, segments.length);
+    const groups = this.parseSelection(
+      answer,
+      segments.map((s) => s.id),
+      options.mergeAdjacent ?? config.highlights.mergeAdjacent,
+    );
 
-    if (selectedIds.length === 0) {
-      console.log('⚠ Nie wybrano żadnych segmentów');
+    if (groups.length === 0) {
+      console.log(Languages.ui({ pl: '⚠ Nie wybrano żadnych segmentów', en: '⚠ No segments selected' }));
       return null;
     }
 
-    const highlights = segments
-      .filter((s) => selectedIds.includes(s.id))
-      .map((s) => ({
-        id: s.id,
-        startTime: s.startTime,
-        endTime: s.endTime,
-        text: s.text,
-      }));
+    const highlights = groups.map((group) => this.toHighlight(group, segments));
 
-    console.log(`\n✓ Wybrano ${highlights.length} highlight(ów)`);
+    const segmentCount = groups.reduce((sum, g) => sum + g.length, 0);
+    console.log(Languages.ui({
+      pl: `\n✓ Wybrano ${highlights.length} highlight(ów) z ${segmentCount} segmentów`,
+      en: `\n✓ Selected ${highlights.length} highlight(s) from ${segmentCount} segments`,
+    }));
 
-    return {
+    const result: HighlightsResult = {
       videoName: baseName,
       highlights,
       createdAt: new Date().toISOString(),
     };
+
+    if (suggestions.length > 0) {
+      result.suggestions = suggestions;
+    }
+    if (suggestionsPrompt) {
+      result.suggestionsPrompt = suggestionsPrompt;
+    }
+
+    return result;
   }
 
-  private static parseSelection(input: string, maxId: number): number[] {
+  private static async promptForSelection(
+    rl: readline.Interface,
+    baseName: string,
+    segments: SrtSegment[],
+    suggestions: HighlightCandidate[],
+    prefill: string,
+  ): Promise<string> {
+    console.log(Languages.ui({
+      pl: `\n📝 Wybierz highlights dla: ${baseName}`,
+      en: `\n📝 Select highlights for: ${baseName}`,
+    }));
+    console.log('─'.repeat(60));
+
+    if (suggestions.length > 0) {
+      this.printSuggestions(suggestions, segments);
+    } else {
+      this.printSegments(segments);
+    }
+
+    console.log('─'.repeat(60));
+    const instructions = Languages.ui({
+      pl: [
+        'Instrukcje:',
+        '  - Wpisz numery segmentów oddzielone przecinkami (np. 1,3,5,8)',
+        '  - Wpisz zakres używając myślnika (np. 1-5)',
+        '  - Możesz łączyć oba formaty (np. 1-3,7,10-12)',
+        '  - Nawiasy kwadratowe łączą segmenty w jeden klip (np. [3-6],9,[12-14])',
+        '  - Wpisz "all" aby wybrać wszystkie',
+        '  - Wpisz "skip" aby pominąć ten plik',
+      ].join('\n'),
+      en: [
+        'Instructions:',
+        '  - Enter segment numbers separated by commas (e.g. 1,3,5,8)',
+        '  - Enter a range with a dash (e.g. 1-5)',
+        '  - Both can be combined (e.g. 1-3,7,10-12)',
+        '  - Square brackets join segments into one clip (e.g. [3-6],9,[12-14])',
+        '  - Enter "all" to select all of them',
+        '  - Enter "skip" to skip this file',
+      ].join('\n'),
+    });
+    console.log(instructions);
+    if (suggestions.length > 0) {
+      console.log(Languages.ui({
+        pl: '  - Propozycje Claude są już wpisane: Enter akceptuje, możesz je też edytować',
+        en: "  - Claude's suggestions are already filled in: Enter accepts them, you can also edit them",
+      }));
+      console.log(Languages.ui({
+        pl: '  - Wpisz "list" aby zobaczyć wszystkie segmenty',
+        en: '  - Enter "list" to see all segments',
+      }));
+    }
+    console.log('');
+
+    const question = Languages.ui({ pl: 'Twój wybór: ', en: 'Your selection: ' });
+    let answer = await this.prompt(rl, question, prefill);
+
+    while (answer.toLowerCase() === 'list') {
+      this.printSegments(segments);
+      answer = await this.prompt(rl, question, prefill);
+    }
+
+    return answer;
+  }
+
+  private static printSegments(segments: SrtSegment[]): void {
+    console.log(Languages.ui({ pl: 'Dostępne segmenty:\n', en: 'Available segments:\n' }));
+
+    for (const segment of segments) {
+      const timeDisplay = `[${segment.startTime} - ${segment.endTime}]`;
+      console.log(`  ${segment.id.toString().padStart(2)}. ${timeDisplay}`);
+      console.log(`      "${segment.text.substring(0, 80)}${segment.text.length > 80 ? '...' : ''}"\n`);
+    }
+  }
+
+  private static printSuggestions(suggestions: HighlightCandidate[], segments: SrtSegment[]): void {
+    console.log(Languages.ui({
+      pl: '🤖 Propozycje Claude (od najlepszej):\n',
+      en: "🤖 Claude's suggestions (best first):\n",
+    }));
+
+    for (const candidate of suggestions) {
+      const first = candidate.segmentIds[0];
+      const last = candidate.segmentIds[candidate.segmentIds.length - 1];
+      const text = segments
+        .filter((s) => candidate.segmentIds.includes(s.id))
+        .map((s) => s.text)
+        .join(' ');
+
+      const segmentsLabel = Languages.ui({ pl: 'segmenty', en: 'segments' });
+      console.log(
+        `  #${candidate.rank} [${candidate.startTime} - ${candidate.endTime}] ${segmentsLabel} ${first}-${last} | hook ${candidate.hookScore}/10 | ${candidate.platform}`,
+      );
+      console.log(`      ${candidate.reason}`);
+      console.log(`      "${text.substring(0, 80)}${text.length > 80 ? '...' : ''}"\n`);
+    }
+  }
+
+  /**
+   * Parse the selection into groups of segment ids, one group per highlight.
+   * "[3-6]" makes one group of consecutive segments (a group with gaps, like "[3,6]", is
+   * split into its consecutive runs); plain numbers and ranges give
+   * one group per segment unless mergeAdjacent joins neighbours. A segment is used
+   * at most once - the first group mentioning it keeps it.
+   */
+  private static parseSelection(input: string, validIds: number[], mergeAdjacent: boolean): number[][] {
+    const valid = new Set(validIds);
+    const maxId = Math.max(...validIds);
+
     if (input.toLowerCase() === 'all') {
-      return Array.from({ length: maxId }, (_, i) => i + 1);
+      const all = [...validIds].sort((a, b) => a - b);
+      return mergeAdjacent ? this.mergeAdjacentGroups(all.map((id) => [id])) : all.map((id) => [id]);
     }
 
-    const ids = new Set<number>();
-    const parts = input.split(',').map((p) => p.trim());
+    const groups: number[][] = [];
+    const used = new Set<number>();
+    const tokens = input.match(/\[[^\]]*\]|[^,\[\]]+/g) ?? [];
+
+    for (const rawToken of tokens) {
+      const token = rawToken.trim();
+      if (!token) continue;
+
+      const isGroup = token.startsWith('[');
+      const inner = isGroup ? token.slice(1, -1) : token;
+      const ids = inner
+        .split(',')
+        .flatMap((part) => this.expandRange(part.trim(), maxId))
+        .filter((id) => valid.has(id) && !used.has(id));
 
-    for (const part of parts) {
-      if (part.includes('-')) {
-        const [start, end] = part.split('-').map((n) => parseInt(n.trim(), 10));
-        if (!isNaN(start) && !isNaN(end)) {
-          for (let i = Math.max(1, start); i <= Math.min(maxId, end); i++) {
-            ids.add(i);
-          }
+      ids.forEach((id) => used.add(id));
+      if (ids.length === 0) continue;
+
+      if (isGroup) {
+        const runs = this.splitIntoRuns([...new Set(ids)].sort((a, b) => a - b));
+        if (runs.length > 1) {
+          // A clip is cut from the first to the last segment - a gap would end up in it unlisted
+          const split = runs.map((run) => this.formatRun(run)).join(', ');
+          console.warn(Languages.ui({
+            pl: `⚠ Grupa ${token} nie jest ciągła - dzielę na ${split}`,
+            en: `⚠ Group ${token} is not contiguous - splitting into ${split}`,
+          }));
         }
+        groups.push(...runs);
       } else {
-        const num = parseInt(part, 10);
-        if (!isNaN(num) && num >= 1 && num <= maxId) {
-          ids.add(num);
-        }
+        groups.push(...ids.map((id) => [id]));
       }
     }
 
-    return Array.from(ids).sort((a, b) => a - b);
+    groups.sort((a, b) => (a[0] ?? 0) - (b[0] ?? 0));
+    return mergeAdjacent ? this.mergeAdjacentGroups(groups) : groups;
+  }
+
+  /**
+   * Sorted ids as runs of consecutive segments: [3, 4, 6] → [[3, 4], [6]]
+   */
+  private static splitIntoRuns(ids: number[]): number[][] {
+    const runs: number[][] = [];
+    for (const id of ids) {
+      const run = runs[runs.length - 1];
+      if (run && run[run.length - 1] === id - 1) {
+        run.push(id);
+      } else {
+        runs.push([id]);
+      }
+    }
+    return runs;
+  }
+
+  private static formatRun(run: number[]): string {
+    return run.length === 1 ? `[${run[0]}]` : `[${run[0]}-${run[run.length - 1]}]`;
+  }
+
+  private static expandRange(part: string, maxId: number): number[] {
+    if (part.includes('-')) {
+      const [start, end] = part.split('-').map((n) => parseInt(n.trim(), 10));
+      if (start === undefined || end === undefined || isNaN(start) || isNaN(end)) {
+        return [];
+      }
+      const ids: number[] = [];
+      for (let i = Math.max(1, start); i <= Math.min(maxId, end); i++) {
+        ids.push(i);
+      }
+      return ids;
+    }
+
+    const num = parseInt(part, 10);
+    return isNaN(num) ? [] : [num];
+  }
+
+  /**
+   * Join groups whose segments directly follow each other (groups must be sorted)
+   */
+  private static mergeAdjacentGroups(groups: number[][]): number[][] {
+    const merged: number[][] = [];
+
+    for (const group of groups) {
+      const previous = merged[merged.length - 1];
+      const previousLast = previous?.[previous.length - 1];
+      if (previous && previousLast !== undefined && group[0] === previousLast + 1) {
+        previous.push(...group);
+      } else {
+        merged.push([...group]);
+      }
+    }
+
+    return merged;
+  }
+
+  private static toHighlight(group: number[], segments: SrtSegment[]): Highlight {
+    const covered = segments.filter((s) => group.includes(s.id));
+    const first = covered[0];
+    const last = covered[covered.length - 1];
+    if (!first || !last) {
+      throw new Error(Languages.ui({
+        pl: `Brak segmentów dla grupy ${group.join(',')}`,
+        en: `No segments for group ${group.join(',')}`,
+      }));
+    }
+
+    return {
+      id: first.id,
+      startTime: first.startTime,
+      endTime: last.endTime,
+      text: covered.map((s) => s.text).join(' '),
+      sourceSegmentIds: covered.map((s) => s.id),
+    };
   }
 
   private static prompt(
     rl: readline.Interface,
     question: string,
+    prefill = '',
   ): Promise<string> {
     return new Promise((resolve) => {
       rl.question(question, (answer) => {
         resolve(answer.trim());
       });
+      if (prefill) {
+        rl.write(prefill);
+      }
     });
   }
 
   static saveHighlights(result: HighlightsResult, outputPath: string): void {
     fs.writeFileSync(outputPath, JSON.stringify(result, null, 2), 'utf-8');
-    console.log(`✓ Highlights zapisane: ${path.basename(outputPath)}`);
+    console.log(Languages.ui({
+      pl: `✓ Highlights zapisane: ${path.basename(outputPath)}`,
+      en: `✓ Highlights saved: ${path.basename(outputPath)}`,
+    }));
   }
 
   static loadHighlights(filePath: string): HighlightsResult | null {
@@ -0,0 +1,74 @@
+import { config } from './config';
+
+/** Language code (ISO 639-1) → name used in the Polish prompts, English name Whisper API reports */
+const LANGUAGES: Record<string, { name: string; english: string }> = {
+  pl: { name: 'polski', english: 'polish' },
+  en: { name: 'angielski', english: 'english' },
+  de: { name: 'niemiecki', english: 'german' },
+  fr: { name: 'francuski', english: 'french' },
+  es: { name: 'hiszpański', english: 'spanish' },
+  it: { name: 'włoski', english: 'italian' },
+  pt: { name: 'portugalski', english: 'portuguese' },
+  nl: { name: 'niderlandzki', english: 'dutch' },
+  cs: { name: 'czeski', english: 'czech' },
+  sk: { name: 'słowacki', english: 'slovak' },
+  uk: { name: 'ukraiński', english: 'ukrainian' },
+  ru: { name: 'rosyjski', english: 'russian' },
+};
+
+export const AUTO_LANGUAGE = 'auto';
+
+export type UiText = { pl: string } & Partial<Record<string, string>>;
+
+/**
+ * Language codes of the pipeline: what the video is spoken in (source) and what the
+ * analysis, platform content and menu are written in - each set separately
+ */
+export class Languages {
+  /**
+   * Language code from a code or an English name ('english' from the Whisper API);
+   * null when it is neither
+   */
+  static normalize(value: string | undefined): string | null {
+    const lower = (value ?? '').trim().toLowerCase();
+    if (!lower) {
+      return null;
+    }
+    if (/^[a-z]{2,3}$/.test(lower)) {
+      return lower;
+    }
+    return Object.entries(LANGUAGES).find(([, l]) => l.english === lower)?.[0] ?? null;
+  }
+
+  /**
+   * Language to ask the transcription backend for, undefined = let it detect
+   */
+  static sourceFor(override?: string): string | undefined {
+    const value = override ?? config.languages.source;
+    if (value === AUTO_LANGUAGE) {
+      return undefined;
+    }
+    const code = this.normalize(value);
+    if (!code) {
+      throw new Error(this.ui({
+        pl: `Nieprawidłowy język źródłowy: ${value} (kod ISO 639-1, np. pl, en, lub "${AUTO_LANGUAGE}")`,
+        en: `Invalid source language: ${value} (ISO 639-1 code, e.g. pl, en, or "${AUTO_LANGUAGE}")`,
+      }));
+    }
+    return code;
+  }
+
+  /**
+   * Name for the prompts ("angielski"); unknown codes are passed as they are
+   */
+  static name(code: string): string {
+    return LANGUAGES[code]?.name ?? code;
+  }
+
+  /**
+   * Menu text in config.languages.ui, Polish when there is no translation
+   */
+  static ui(text: UiText): string {
+    return text[config.languages.ui] ?? text.pl;
+  }
+}
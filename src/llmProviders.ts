@@ -0,0 +1,109 @@
+import Anthropic from '@anthropic-ai/sdk';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+
+export type LlmProviderName = 'anthropic' | 'fake';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  maxTokens: number;
+  messages: LlmMessage[];
+  /** Template the first prompt was rendered from (e.g. "analysis") - picks the fake's fixture */
+  template?: string;
+}
+
+export interface LlmResponse {
+  text: string;
+  /** Model that answered */
+  model: string;
+  /** Output stopped at maxTokens */
+  truncated: boolean;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  /** Model the backend answers with - part of the cache key */
+  readonly model: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * Claude through the Anthropic Messages API
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private readonly client: Anthropic;
+
+  constructor(
+    apiKey: string = config.anthropic.apiKey,
+    readonly model: string = config.claude.model,
+  ) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const message = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      messages: request.messages,
+    });
+
+    return {
+      text: message.content.map((block) => (block.type === 'text' ? block.text : '')).join(''),
+      model: message.model || this.model,
+      truncated: message.stop_reason === 'max_tokens',
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    };
+  }
+}
+
+/**
+ * Canned responses for offline runs: the JSON in <fixtures>/llm/<template>.json, the same
+ * for every call with that template. Token counts are estimated from the text length.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+  readonly model = 'fake';
+
+  constructor(private readonly fixturesDir: string = path.join(config.fixtures.dir, 'llm')) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    if (!request.template) {
+      throw new Error('Fake LLM provider needs the prompt template to pick a fixture');
+    }
+
+    const fixturePath = path.join(this.fixturesDir, `${request.template}.json`);
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(`No fixture for prompt template "${request.template}": ${fixturePath}`);
+    }
+
+    const text = fs.readFileSync(fixturePath, 'utf-8');
+    const prompt = request.messages.map((m) => m.content).join('\n');
+    return {
+      text,
+      model: this.model,
+      truncated: false,
+      inputTokens: Math.ceil(prompt.length / 4),
+      outputTokens: Math.ceil(text.length / 4),
+    };
+  }
+}
+
+export function createLlmProvider(name: LlmProviderName = config.claude.provider): LlmProvider {
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'fake':
+      return new FakeLlmProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
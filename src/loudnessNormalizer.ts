@@ -0,0 +1,140 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from './config';
+import { FfmpegBinaries } from './ffmpegBinaries';
+
+FfmpegBinaries.configure();
+
+export type LoudnessPresetName = 'youtube' | 'podcast' | 'broadcast';
+
+export interface LoudnessPreset {
+  name: LoudnessPresetName;
+  /** Integrated loudness, LUFS */
+  integrated: number;
+  /** Maximum true peak, dBTP */
+  truePeak: number;
+  /** Loudness range, LU */
+  lra: number;
+}
+
+export interface LoudnessMeasurement {
+  integrated: number;
+  truePeak: number;
+  lra: number;
+  threshold: number;
+}
+
+export interface LoudnessReport {
+  preset: LoudnessPresetName;
+  input: LoudnessMeasurement;
+  output?: LoudnessMeasurement;
+}
+
+const PRESETS: Record<LoudnessPresetName, LoudnessPreset> = {
+  youtube: { name: 'youtube', integrated: -14, truePeak: -1, lra: 11 },
+  podcast: { name: 'podcast', integrated: -16, truePeak: -1.5, lra: 11 },
+  // EBU R128
+  broadcast: { name: 'broadcast', integrated: -23, truePeak: -1, lra: 7 },
+};
+
+/**
+ * Two-pass EBU R128 normalization with ffmpeg loudnorm: the first pass measures,
+ * the second applies a linear gain computed from that measurement
+ */
+export class LoudnessNormalizer {
+  static readonly PRESET_NAMES = Object.keys(PRESETS) as LoudnessPresetName[];
+
+  /**
+   * Preset by name, or null when normalization is off
+   */
+  static getPreset(name: string = config.loudness.preset): LoudnessPreset | null {
+    if (name === 'off') {
+      return null;
+    }
+
+    const preset = PRESETS[name as LoudnessPresetName];
+    if (!preset) {
+      throw new Error(`Nieznany preset głośności: ${name} (dostępne: off, ${this.PRESET_NAMES.join(', ')})`);
+    }
+    return preset;
+  }
+
+  /**
+   * First pass - measure the audio of a file, optionally only a fragment of it
+   */
+  static measure(
+    filePath: string,
+    preset: LoudnessPreset,
+    range?: { start: number; duration: number },
+  ): Promise<LoudnessMeasurement> {
+    return new Promise((resolve, reject) => {
+      const cmd = ffmpeg(filePath);
+
+      if (range) {
+        cmd.setStartTime(range.start).setDuration(range.duration);
+      }
+
+      cmd
+        .noVideo()
+        .audioFilters(
+          `loudnorm=I=${preset.integrated}:TP=${preset.truePeak}:LRA=${preset.lra}:print_format=json`,
+        )
+        .format('null')
+        .output('-')
+        .on('end', (_stdout: string | null, stderr: string | null) => {
+          try {
+            resolve(this.parseMeasurement(stderr ?? ''));
+          } catch (err) {
+            reject(err);
+          }
+        })
+        .on('error', (err) => reject(err))
+        .run();
+    });
+  }
+
+  /**
+   * Second pass filter. loudnorm works at 192 kHz internally, so the caller should
+   * resample afterwards.
+   */
+  static buildFilter(preset: LoudnessPreset, measured: LoudnessMeasurement): string {
+    return [
+      `loudnorm=I=${preset.integrated}`,
+      `TP=${preset.truePeak}`,
+      `LRA=${preset.lra}`,
+      `measured_I=${measured.integrated}`,
+      `measured_TP=${measured.truePeak}`,
+      `measured_LRA=${measured.lra}`,
+      `measured_thresh=${measured.threshold}`,
+      'linear=true',
+    ].join(':');
+  }
+
+  static describe(measurement: LoudnessMeasurement): string {
+    return `${measurement.integrated.toFixed(1)} LUFS, TP ${measurement.truePeak.toFixed(1)} dBTP`;
+  }
+
+  /**
+   * loudnorm prints its JSON as the last {...} block of stderr
+   */
+  private static parseMeasurement(stderr: string): LoudnessMeasurement {
+    const start = stderr.lastIndexOf('{');
+    const end = stderr.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      throw new Error('Brak wyniku pomiaru loudnorm w wyjściu ffmpeg');
+    }
+
+    const raw = JSON.parse(stderr.slice(start, end + 1)) as Record<string, string>;
+    const value = (key: string): number => {
+      const parsed = parseFloat(raw[key] ?? '');
+      // Silence measures as -inf - clamp to something loudnorm accepts
+      return Number.isFinite(parsed) ? parsed : -99;
+    };
+
+    return {
+      integrated: value('input_i'),
+      truePeak: value('input_tp'),
+      lra: Math.max(0, value('input_lra')),
+      threshold: value('input_thresh'),
+    };
+  }
+}
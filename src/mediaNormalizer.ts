@@ -0,0 +1,143 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from './config';
+import { FfmpegBinaries } from './ffmpegBinaries';
+
+FfmpegBinaries.configure();
+
+export interface MediaInfo {
+  width: number;
+  height: number;
+  /** Sample aspect ratio as a number (1 = square pixels) */
+  sar: number;
+  /** ffprobe rational, e.g. "25/1" or "30000/1001" */
+  frameRate: string;
+  pixFmt: string;
+  hasAudio: boolean;
+  sampleRate?: number;
+  channelLayout?: string;
+  duration: number;
+}
+
+export interface NormalizeTarget {
+  width: number;
+  height: number;
+  frameRate: string;
+  pixFmt: string;
+  sampleRate: number;
+  channelLayout: string;
+}
+
+export class MediaNormalizer {
+  static probe(filePath: string): Promise<MediaInfo> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (err, metadata) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const video = metadata.streams.find((s) => s.codec_type === 'video');
+        const audio = metadata.streams.find((s) => s.codec_type === 'audio');
+
+        if (!video?.width || !video.height) {
+          reject(new Error(`Brak strumienia wideo: ${filePath}`));
+          return;
+        }
+
+        const info: MediaInfo = {
+          width: video.width,
+          height: video.height,
+          sar: this.parseRatio(video.sample_aspect_ratio) || 1,
+          frameRate: video.r_frame_rate && video.r_frame_rate !== '0/0' ? video.r_frame_rate : '25/1',
+          pixFmt: video.pix_fmt ?? 'yuv420p',
+          hasAudio: audio !== undefined,
+          duration: Number(metadata.format.duration) || 0,
+        };
+        if (audio?.sample_rate) info.sampleRate = Number(audio.sample_rate);
+        if (audio) info.channelLayout = audio.channel_layout ?? (audio.channels === 1 ? 'mono' : 'stereo');
+
+        resolve(info);
+      });
+    });
+  }
+
+  /**
+   * Target format: values from config.normalization, 'source' ones taken from the
+   * reference input (the original video - it is the bulk of the output)
+   */
+  static chooseTarget(reference: MediaInfo, pixFmt: string): NormalizeTarget {
+    const settings = config.normalization;
+
+    let width: number;
+    let height: number;
+    if (settings.resolution === 'source') {
+      // Square pixels in the output - anamorphic sources are stretched to their display width
+      width = this.even(reference.width * reference.sar);
+      height = this.even(reference.height);
+    } else {
+      const [w, h] = settings.resolution.split('x').map((v) => parseInt(v, 10));
+      if (!w || !h) {
+        throw new Error(`Nieprawidłowa rozdzielczość normalizacji: ${settings.resolution} (oczekiwano np. 1920x1080)`);
+      }
+      width = this.even(w);
+      height = this.even(h);
+    }
+
+    return {
+      width,
+      height,
+      frameRate: settings.frameRate === 'source' ? reference.frameRate : settings.frameRate,
+      pixFmt,
+      sampleRate: settings.sampleRate,
+      channelLayout: settings.channelLayout,
+    };
+  }
+
+  /**
+   * Filter chains bringing input `index` to the target, ending in [v<index>] and [a<index>].
+   * Inputs without audio get generated silence of the same length. `audioFilter` (e.g. loudnorm)
+   * runs on the input audio before resampling.
+   */
+  static buildInputFilters(
+    index: number,
+    info: MediaInfo,
+    target: NormalizeTarget,
+    audioFilter?: string,
+  ): string[] {
+    const { width, height } = target;
+
+    const video = [
+      // Square pixels first, then fit inside the target and letterbox the rest
+      'scale=iw*sar:ih',
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
+      'setsar=1',
+      `fps=${target.frameRate}`,
+      `format=${target.pixFmt}`,
+      // xfade and concat need every input starting at zero on a common timebase
+      'settb=AVTB',
+      'setpts=PTS-STARTPTS',
+    ].join(',');
+
+    const audioFormat = `aformat=sample_fmts=fltp:sample_rates=${target.sampleRate}:channel_layouts=${target.channelLayout}`;
+    const audio = info.hasAudio
+      ? `[${index}:a]${audioFilter ? `${audioFilter},` : ''}aresample=${target.sampleRate},${audioFormat},asetpts=PTS-STARTPTS[a${index}]`
+      : `anullsrc=channel_layout=${target.channelLayout}:sample_rate=${target.sampleRate},atrim=0:${info.duration.toFixed(3)},${audioFormat},asetpts=PTS-STARTPTS[a${index}]`;
+
+    return [`[${index}:v]${video}[v${index}]`, audio];
+  }
+
+  static describe(target: NormalizeTarget): string {
+    return `${target.width}x${target.height} @ ${target.frameRate} fps, ${target.pixFmt}, ${target.sampleRate} Hz ${target.channelLayout}`;
+  }
+
+  private static parseRatio(value: string | undefined): number {
+    if (!value) return 0;
+    const [num, den] = value.split(':').map(Number);
+    return num && den ? num / den : 0;
+  }
+
+  private static even(value: number): number {
+    return Math.max(2, Math.round(value / 2) * 2);
+  }
+}
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+
+export type MusicSettings = typeof config.music.settings;
+
+/**
+ * Music track with the settings it was mixed with - stored as-is in metadata
+ */
+export interface MusicBedInfo extends MusicSettings {
+  name: string;
+  file: string;
+}
+
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.aac', '.flac', '.ogg'];
+
+/**
+ * Background music from additional/music, looped or trimmed to the video length,
+ * faded in/out and ducked under speech with sidechaincompress
+ */
+export class MusicBed {
+  static getDir(): string {
+    return path.join(config.assembly.assetsDir, 'music');
+  }
+
+  static list(): Array<{ name: string; path: string }> {
+    const dir = this.getDir();
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(dir)
+      .filter((file) => AUDIO_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .sort()
+      .map((file) => ({ name: path.basename(file, path.extname(file)), path: path.join(dir, file) }));
+  }
+
+  /**
+   * Track by name: 'none' (or empty) for no music, 'auto' for the first file in the library
+   */
+  static resolve(name: string = config.music.track): MusicBedInfo | null {
+    if (!name || name === 'none') {
+      return null;
+    }
+
+    const tracks = this.list();
+    const track = name === 'auto' ? tracks[0] : tracks.find((t) => t.name === name);
+
+    if (!track) {
+      const available = tracks.map((t) => t.name).join(', ') || 'brak plików';
+      throw new Error(`Brak muzyki "${name}" w ${this.getDir()} (dostępne: ${available})`);
+    }
+
+    return { name: track.name, file: track.path, ...config.music.settings };
+  }
+
+  /**
+   * Filters mixing the music input under the speech, for a filter_complex. The music
+   * input must be opened with `-stream_loop -1` so it is long enough to trim.
+   */
+  static buildFilters(
+    speechLabel: string,
+    musicLabel: string,
+    outLabel: string,
+    duration: number,
+    bed: MusicBedInfo,
+  ): string[] {
+    const { sampleRate, channelLayout } = config.normalization;
+    const format = `aresample=${sampleRate},aformat=sample_fmts=fltp:channel_layouts=${channelLayout}`;
+    const fadeOutStart = Math.max(0, duration - bed.fadeOut);
+
+    return [
+      `[${musicLabel}]atrim=0:${duration.toFixed(3)},asetpts=PTS-STARTPTS,${format},volume=${bed.volumeDb}dB,` +
+        `afade=t=in:st=0:d=${bed.fadeIn},afade=t=out:st=${fadeOutStart.toFixed(3)}:d=${bed.fadeOut}[mb_music]`,
+      `[${speechLabel}]${format},asplit=2[mb_speech][mb_key]`,
+      // The speech is the sidechain key - music drops while someone talks
+      `[mb_music][mb_key]sidechaincompress=threshold=${bed.duck.threshold}:ratio=${bed.duck.ratio}` +
+        `:attack=${bed.duck.attack}:release=${bed.duck.release}[mb_ducked]`,
+      // amix halves both inputs; bring the speech back to its level
+      `[mb_speech][mb_ducked]amix=inputs=2:duration=first:dropout_transition=0,volume=2[${outLabel}]`,
+    ];
+  }
+
+  static describe(bed: MusicBedInfo): string {
+    return `${path.basename(bed.file)} (${bed.volumeDb} dB, ducking 1:${bed.duck.ratio})`;
+  }
+}
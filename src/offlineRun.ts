@@ -0,0 +1,112 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * The whole pipeline (extract → transcribe → analyze → organize → highlights → cut →
+ * approve → assemble) without network or API keys: short synthetic videos made by ffmpeg,
+ * the fake transcription and Claude providers answering from additional/fixtures, all in
+ * a scratch working directory. Cutting and assembly need ffprobe on PATH, as in a normal run.
+ *
+ *   npm run offline [-- <katalog roboczy>]
+ */
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Config is imported only after the chdir below, so the override is read from the environment here
+ffmpeg.setFfmpegPath(process.env.FFMPEG_PATH || ffmpegInstaller.path);
+
+const REPO_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Long enough for three chapters that meet YouTube's 10-second minimum
+const VIDEO_SECONDS = 45;
+
+const TEST_VIDEOS = [
+  { name: 'offline-demo-1.mp4', pattern: 'testsrc', frequency: 440 },
+  { name: 'offline-demo-2.mp4', pattern: 'testsrc2', frequency: 660 },
+];
+
+/**
+ * Test pattern with a sine tone - enough for every step, nothing to download
+ */
+function generateVideo(outputPath: string, pattern: string, frequency: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg()
+      .input(`${pattern}=size=640x360:rate=25:duration=${VIDEO_SECONDS}`)
+      .inputFormat('lavfi')
+      .input(`sine=frequency=${frequency}:sample_rate=48000:duration=${VIDEO_SECONDS}`)
+      .inputFormat('lavfi')
+      .outputOptions(['-c:v libx264', '-preset ultrafast', '-pix_fmt yuv420p', '-c:a aac', '-shortest'])
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err))
+      .run();
+  });
+}
+
+async function main(args: string[]): Promise<number> {
+  const workDir = path.resolve(args[0] ?? fs.mkdtempSync(path.join(os.tmpdir(), 'vide-agent-offline-')));
+  console.log(`🧪 Offline run in: ${workDir}\n`);
+
+  for (const dir of ['upload', 'separated-audio', 'ready-video']) {
+    fs.mkdirSync(path.join(workDir, dir), { recursive: true });
+  }
+  // Prompts, templates, platform registry and the fixtures the fake providers answer from
+  fs.cpSync(path.join(REPO_DIR, 'additional'), path.join(workDir, 'additional'), { recursive: true });
+
+  for (const video of TEST_VIDEOS) {
+    const videoPath = path.join(workDir, 'upload', video.name);
+    if (!fs.existsSync(videoPath)) {
+      console.log(`🎬 Generating ${video.name} (${VIDEO_SECONDS}s)`);
+      await generateVideo(videoPath, video.pattern, video.frequency);
+    }
+  }
+
+  // Config resolves every path from the working directory when it is first imported
+  process.chdir(workDir);
+  const { Agent } = await import('./agent');
+  const { FakeTranscriptionProvider } = await import('./transcriptionProviders');
+  const { FakeLlmProvider } = await import('./llmProviders');
+
+  const agent = new Agent({ transcription: new FakeTranscriptionProvider(), llm: new FakeLlmProvider() });
+  const failures: string[] = [];
+
+  const results = await agent.processAllVideos({ overwrite: true });
+  if (results.length !== TEST_VIDEOS.length || results.some((r) => !r.success)) {
+    failures.push('process');
+  }
+
+  const steps = [
+    { step: 'highlights', options: { suggest: true, select: 'suggested', overwrite: true } },
+    { step: 'cut-highlights', options: { overwrite: true } },
+    { step: 'approve-highlights', options: { select: 'all', overwrite: true } },
+    { step: 'assemble-full', options: { intro: 'none', music: 'none', overwrite: true } },
+  ] as const;
+
+  for (const { step, options } of steps) {
+    console.log('');
+    const summary = await agent.runStep(step, options);
+    console.log(`📋 ${step}: ${summary.processed} przetworzono, ${summary.skipped} pominięto, ${summary.failed} błędów`);
+    if (summary.failed > 0 || summary.processed === 0) {
+      failures.push(step);
+    }
+  }
+
+  console.log(`\n📁 Wyniki: ${path.join(workDir, 'ready-video')}`);
+  if (failures.length > 0) {
+    console.error(`✗ Nieudane kroki: ${failures.join(', ')}`);
+    return 1;
+  }
+  console.log('✅ Offline run complete');
+  return 0;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exit(code);
+  })
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(3);
+  });
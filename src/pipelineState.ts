@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Languages } from './languages';
+
+export type PipelineStep = 'extract' | 'transcribe' | 'analyze' | 'organize';
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface FileFingerprint {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  sha256: string;
+}
+
+export interface StepRecord {
+  status: StepStatus;
+  inputs: FileFingerprint[];
+  outputs: FileFingerprint[];
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface PipelineManifest {
+  videoName: string;
+  updatedAt: string;
+  steps: Partial<Record<PipelineStep, StepRecord>>;
+}
+
+/**
+ * Per-video manifest (<videoName>_state.json) recording what each pipeline step
+ * consumed and produced. A step is fresh when it completed, its outputs still exist
+ * and its inputs have the same content as when it ran - so re-running an upstream
+ * step that changes an artifact makes every step consuming it stale.
+ */
+export class PipelineState {
+  static readonly STEPS: PipelineStep[] = ['extract', 'transcribe', 'analyze', 'organize'];
+
+  private constructor(
+    private readonly manifestPath: string,
+    private readonly manifest: PipelineManifest,
+  ) {}
+
+  static getManifestPath(dir: string, videoName: string): string {
+    return path.join(dir, `${videoName}_state.json`);
+  }
+
+  static load(dir: string, videoName: string): PipelineState {
+    const manifestPath = this.getManifestPath(dir, videoName);
+
+    if (fs.existsSync(manifestPath)) {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as PipelineManifest;
+      return new PipelineState(manifestPath, manifest);
+    }
+
+    return new PipelineState(manifestPath, {
+      videoName,
+      updatedAt: new Date().toISOString(),
+      steps: {},
+    });
+  }
+
+  get videoName(): string {
+    return this.manifest.videoName;
+  }
+
+  getRecord(step: PipelineStep): StepRecord | undefined {
+    return this.manifest.steps[step];
+  }
+
+  getOutputs(step: PipelineStep): string[] {
+    return (this.manifest.steps[step]?.outputs ?? []).map((f) => f.path);
+  }
+
+  /**
+   * Why the step has to run, or null when its recorded result is still valid
+   */
+  async getStaleReason(step: PipelineStep, inputPaths: string[]): Promise<string | null> {
+    const record = this.manifest.steps[step];
+
+    if (!record) {
+      return Languages.ui({ pl: 'brak wcześniejszego uruchomienia', en: 'no previous run' });
+    }
+    if (record.status !== 'completed') {
+      return Languages.ui({ pl: `poprzedni status: ${record.status}`, en: `previous status: ${record.status}` });
+    }
+
+    const recordedInputs = record.inputs.map((f) => f.path).sort();
+    const currentInputs = [...inputPaths].sort();
+    if (recordedInputs.join('\n') !== currentInputs.join('\n')) {
+      return Languages.ui({ pl: 'zmieniły się pliki wejściowe', en: 'input files changed' });
+    }
+
+    for (const input of record.inputs) {
+      if (!fs.existsSync(input.path)) {
+        return Languages.ui({
+          pl: `brak pliku wejściowego ${path.basename(input.path)}`,
+          en: `input file missing: ${path.basename(input.path)}`,
+        });
+      }
+      const current = await PipelineState.fingerprint(input.path, input);
+      if (current.sha256 !== input.sha256) {
+        return Languages.ui({
+          pl: `zmienił się plik ${path.basename(input.path)}`,
+          en: `file changed: ${path.basename(input.path)}`,
+        });
+      }
+    }
+
+    for (const output of record.outputs) {
+      if (!fs.existsSync(output.path)) {
+        return Languages.ui({
+          pl: `brak pliku wyjściowego ${path.basename(output.path)}`,
+          en: `output file missing: ${path.basename(output.path)}`,
+        });
+      }
+    }
+
+    return null;
+  }
+
+  markRunning(step: PipelineStep): void {
+    const previous = this.manifest.steps[step];
+    this.manifest.steps[step] = {
+      status: 'running',
+      inputs: previous?.inputs ?? [],
+      outputs: previous?.outputs ?? [],
+      startedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  async markCompleted(step: PipelineStep, inputPaths: string[], outputPaths: string[]): Promise<void> {
+    const record = this.manifest.steps[step];
+    const inputs: FileFingerprint[] = [];
+    const outputs: FileFingerprint[] = [];
+
+    for (const input of inputPaths) {
+      inputs.push(await PipelineState.fingerprint(input));
+    }
+    for (const output of outputPaths) {
+      outputs.push(await PipelineState.fingerprint(output));
+    }
+
+    this.manifest.steps[step] = {
+      status: 'completed',
+      inputs,
+      outputs,
+      startedAt: record?.startedAt ?? new Date().toISOString(),
+      finishedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  markFailed(step: PipelineStep, err: unknown): void {
+    const record = this.manifest.steps[step];
+    this.manifest.steps[step] = {
+      status: 'failed',
+      inputs: record?.inputs ?? [],
+      outputs: record?.outputs ?? [],
+      startedAt: record?.startedAt ?? new Date().toISOString(),
+      finishedAt: new Date().toISOString(),
+      error: err instanceof Error ? err.message : String(err),
+    };
+    this.save();
+  }
+
+  private save(): void {
+    this.manifest.updatedAt = new Date().toISOString();
+    fs.mkdirSync(path.dirname(this.manifestPath), { recursive: true });
+    fs.writeFileSync(this.manifestPath, JSON.stringify(this.manifest, null, 2), 'utf-8');
+  }
+
+  /**
+   * Content fingerprint of a file. Hashing large videos is slow, so the recorded
+   * hash is reused when size and modification time are unchanged.
+   */
+  static async fingerprint(filePath: string, known?: FileFingerprint): Promise<FileFingerprint> {
+    const stat = fs.statSync(filePath);
+
+    if (known && known.size === stat.size && known.mtimeMs === stat.mtimeMs) {
+      return { ...known, path: filePath };
+    }
+
+    const sha256 = await new Promise<string>((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      fs.createReadStream(filePath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+
+    return { path: filePath, size: stat.size, mtimeMs: stat.mtimeMs, sha256 };
+  }
+}
@@ -1,125 +1,119 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { config } from './config';
-
-interface PlatformContent {
-  hashtags: string;
-  background: string;
-  title: string;
-  description: string;
-}
-
-interface AllPlatformsContent {
-  facebook: PlatformContent;
-  linkedin: PlatformContent;
-  tiktok: PlatformContent;
-  youtube: PlatformContent;
+import { PromptTemplates } from './promptTemplates';
+import { Languages } from './languages';
+import { LlmProvider, createLlmProvider } from './llmProviders';
+import { Schema, StructuredOutput } from './structuredOutput';
+import { TranscriptWindows } from './transcriptWindows';
+import { PromptInfo, WindowSummary } from './types';
+import {
+  AllPlatformsContent,
+  PlatformContent,
+  PlatformDefinition,
+  PlatformIssue,
+  PlatformRegistry,
+} from './platformRegistry';
+
+export interface PlatformContentResult {
+  /** Language code the content is written in */
+  language: string;
+  content: AllPlatformsContent;
+  /** Limit violations, repaired or left for a manual fix */
+  issues: PlatformIssue[];
+  prompt: PromptInfo;
 }
 
-const anthropic = new Anthropic({
-  apiKey: config.anthropic.apiKey,
-});
-
 export class PlatformContentGenerator {
-  private static readonly MAX_RETRIES = 3;
-
-  private static cleanJsonResponse(text: string): string {
-    // Remove markdown code blocks if present
-    let cleaned = text.replace(/```json\s*/gi, '').replace(/```\s*/g, '');
-    // Remove any leading/trailing whitespace
-    cleaned = cleaned.trim();
-    return cleaned;
+  /**
+   * One object per platform; empty hashtags are allowed (some platforms need none)
+   */
+  private static responseSchema(platforms: PlatformDefinition[]): Schema {
+    const fields: Schema = {
+      type: 'object',
+      properties: {
+        hashtags: { type: 'string' },
+        background: { type: 'string', minLength: 1 },
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string', minLength: 1 },
+      },
+    };
+    return { type: 'object', properties: Object.fromEntries(platforms.map((p) => [p.name, fields])) };
   }
 
-  private static parseJsonResponse(responseText: string): AllPlatformsContent {
-    const cleaned = this.cleanJsonResponse(responseText);
-
-    // Try to extract JSON from the response
-    const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Could not find JSON object in response');
-    }
+  private static responseShape(platforms: PlatformDefinition[]): string {
+    const fields = { hashtags: '...', background: '...', title: '...', description: '...' };
+    return JSON.stringify(Object.fromEntries(platforms.map((p) => [p.name, fields])), null, 2);
+  }
 
-    return JSON.parse(jsonMatch[0]) as AllPlatformsContent;
+  /**
+   * One prompt line per platform: its limits and tone from the registry
+   */
+  private static describePlatforms(platforms: PlatformDefinition[]): string {
+    return platforms
+      .map((p) => {
+        const { title, description, hashtags } = p.limits;
+        const tags = hashtags.min === hashtags.max ? `${hashtags.max}` : `${hashtags.min}-${hashtags.max}`;
+        return `- ${p.name} (${p.label}): tytuł do ${title} znaków, opis do ${description} znaków, ${tags} hashtagów` +
+          (p.tone ? `. Styl: ${p.tone}` : '');
+      })
+      .join('\n');
   }
 
+  /**
+   * Content in one language, from the SRT transcript or - for transcripts too long for one
+   * prompt - the window summaries of the analysis. sourceLanguage (when known and
+   * different) tells Claude the copy is written from a transcript in another language.
+   */
   static async generatePlatformContent(
-    srtContent: string,
+    input: string | WindowSummary[],
     videoName: string,
-  ): Promise<AllPlatformsContent> {
-    console.log(`📱 Generating platform-specific content for: ${videoName}`);
-
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
-      try {
-        const message = await anthropic.messages.create({
-          model: config.claude.model,
-          max_tokens: 2000,
-          messages: [
-            {
-              role: 'user',
-              content: `Na podstawie poniższej transkrypcji wideo, wygeneruj zawartość zoptymalizowaną dla 4 różnych platform mediów społecznych.
-
-WAŻNE: Główna fraza sprzedażowa to "proces gotowy na AI". Staraj się naturalnie wpleść tę frazę lub jej warianty (np. "procesy gotowe na AI", "przygotowanie procesów na AI") w generowane treści, szczególnie w tytułach i opisach.
-
-Dla każdej platformy podaj po polsku:
-- hashtags: odpowiednie hashtagi (oddzielone przecinkami) - uwzględnij #ProcesGotowyNaAI
-- background: krótki kontekst lub tło (1-2 zdania)
-- title: tytuł zoptymalizowany dla platformy (naturalnie zawierający frazę "proces gotowy na AI" jeśli pasuje)
-- description: opis zoptymalizowany dla platformy
-
-Transkrypcja:
-${srtContent}
-
-Zwróć TYLKO prawidłowy JSON z dokładnie tą strukturą (bez markdown, bez dodatkowego tekstu). Cała zawartość powinna być po polsku:
-{
-  "facebook": {
-    "hashtags": "...",
-    "background": "...",
-    "title": "...",
-    "description": "..."
-  },
-  "linkedin": {
-    "hashtags": "...",
-    "background": "...",
-    "title": "...",
-    "description": "..."
-  },
-  "tiktok": {
-    "hashtags": "...",
-    "background": "...",
-    "title": "...",
-    "description": "..."
-  },
-  "youtube": {
-    "hashtags": "...",
-    "background": "...",
-    "title": "...",
-    "description": "..."
-  }
-}`,
-            },
-          ],
-        });
-
-        const responseText =
-          message.content[0].type === 'text' ? message.content[0].text : '';
-
-        const parsed = this.parseJsonResponse(responseText);
-
-        console.log(`✓ Platform content generated`);
-        return parsed;
-      } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
+    platforms: PlatformDefinition[] = PlatformRegistry.load(),
+    language: string = config.languages.content[0] ?? 'pl',
+    sourceLanguage: string | null = null,
+    llm: LlmProvider = createLlmProvider(),
+  ): Promise<PlatformContentResult> {
+    console.log(`📱 Generating platform-specific content for: ${videoName} (${language})`);
+
+    const prompt = PromptTemplates.render('platform-content', {
+      platformCount: platforms.length,
+      platforms: this.describePlatforms(platforms),
+      // Exactly one of transcript / digest is set
+      transcript: typeof input === 'string' ? input : '',
+      digest: typeof input === 'string' ? '' : TranscriptWindows.formatDigest(input),
+      responseShape: this.responseShape(platforms),
+      language: Languages.name(language),
+      // Window summaries are already in the analysis language
+      sourceLanguage:
+        typeof input === 'string' && sourceLanguage && sourceLanguage !== language ? Languages.name(sourceLanguage) : '',
+    });
+
+    try {
+      const { data: parsed } = await StructuredOutput.request<AllPlatformsContent>(llm, {
+        task: `platform content ${videoName} (${language})`,
+        prompt: prompt.text,
+        promptInfo: prompt.info,
+        schema: this.responseSchema(platforms),
+        maxTokens: Math.max(2000, platforms.length * config.claude.budgets.platformContent),
+      });
+
+      const content: AllPlatformsContent = {};
+      const issues: PlatformIssue[] = [];
+      for (const platform of platforms) {
+        const checked = PlatformRegistry.enforceLimits(parsed[platform.name]!, platform);
+        content[platform.name] = checked.content;
+        issues.push(...checked.issues);
+      }
 
-        if (attempt < this.MAX_RETRIES) {
-          console.warn(`⚠ Attempt ${attempt}/${this.MAX_RETRIES} failed: ${lastError.message}. Retrying...`);
-        }
+      for (const issue of issues) {
+        const status = issue.repaired ? 'repaired' : 'needs manual fix';
+        console.warn(`⚠ ${issue.platform} ${issue.field}: ${issue.message} (${status})`);
       }
-    }
 
-    console.error(`✗ Error generating platform content after ${this.MAX_RETRIES} attempts: ${lastError}`);
-    throw lastError;
+      console.log(`✓ Platform content generated`);
+      return { language, content, issues, prompt: prompt.info };
+    } catch (err) {
+      console.error(`✗ Error generating platform content: ${err}`);
+      throw err;
+    }
   }
 
   static formatPlatformFile(content: PlatformContent): string {
@@ -135,4 +129,24 @@ ${content.title}
 Opis:
 ${content.description}`;
   }
+
+  /**
+   * Read back a file written by formatPlatformFile
+   */
+  static parsePlatformFile(text: string): PlatformContent {
+    const section = (label: string, next?: string): string => {
+      const start = text.indexOf(`${label}:\n`);
+      if (start === -1) return '';
+      const from = start + label.length + 2;
+      const end = next ? text.indexOf(`\n\n${next}:\n`, from) : -1;
+      return text.slice(from, end === -1 ? undefined : end).trim();
+    };
+
+    return {
+      hashtags: section('Hashtagi', 'Tło'),
+      background: section('Tło', 'Tytuł'),
+      title: section('Tytuł', 'Opis'),
+      description: section('Opis'),
+    };
+  }
 }
@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+
+export interface PlatformDefinition {
+  /** Key in the generated JSON */
+  name: string;
+  label: string;
+  /** File written to the project folder */
+  fileName: string;
+  limits: {
+    /** Maximum characters */
+    title: number;
+    description: number;
+    hashtags: { min: number; max: number };
+  };
+  /** Style guidance passed to Claude */
+  tone: string;
+}
+
+export interface PlatformContent {
+  hashtags: string;
+  background: string;
+  title: string;
+  description: string;
+}
+
+/** Generated content keyed by platform name */
+export type AllPlatformsContent = Record<string, PlatformContent>;
+
+export interface PlatformIssue {
+  platform: string;
+  field: 'title' | 'description' | 'hashtags';
+  message: string;
+  /** false: left as generated, needs a manual fix */
+  repaired: boolean;
+}
+
+/**
+ * Platforms content is generated for, read from config.platforms.registryFile -
+ * adding a platform is a new entry in that file
+ */
+export class PlatformRegistry {
+  static load(filePath: string = config.platforms.registryFile): PlatformDefinition[] {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Brak rejestru platform: ${filePath}`);
+    }
+
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { platforms?: Array<Partial<PlatformDefinition>> };
+    if (!Array.isArray(raw.platforms) || raw.platforms.length === 0) {
+      throw new Error(`Rejestr platform ${path.basename(filePath)}: "platforms" musi być niepustą tablicą`);
+    }
+
+    const names = new Set<string>();
+    // Compared case-insensitively - on macOS and Windows "YouTube.txt" is the same file as "youtube.txt"
+    const fileNames = new Set<string>();
+    return raw.platforms.map((entry, index) => {
+      const platform = this.validate(entry, index, path.basename(filePath));
+      if (names.has(platform.name)) {
+        throw new Error(`Rejestr platform ${path.basename(filePath)}: powtórzona platforma "${platform.name}"`);
+      }
+      // One platform's file would silently overwrite the other's
+      if (fileNames.has(platform.fileName.toLowerCase())) {
+        throw new Error(
+          `Rejestr platform ${path.basename(filePath)}: plik "${platform.fileName}" powtórzony (${platform.name})`,
+        );
+      }
+      names.add(platform.name);
+      fileNames.add(platform.fileName.toLowerCase());
+      return platform;
+    });
+  }
+
+  static find(name: string, platforms: PlatformDefinition[] = this.load()): PlatformDefinition | undefined {
+    return platforms.find((p) => p.name === name);
+  }
+
+  /**
+   * Check generated content against the platform's limits. Over-long text is cut at a
+   * word boundary and surplus hashtags dropped (when config.platforms.repair is on);
+   * what cannot be repaired - empty fields, too few hashtags - is only reported.
+   */
+  static enforceLimits(
+    content: PlatformContent,
+    platform: PlatformDefinition,
+    repair: boolean = config.platforms.repair,
+  ): { content: PlatformContent; issues: PlatformIssue[] } {
+    const result = { ...content };
+    const issues: PlatformIssue[] = [];
+    const issue = (field: PlatformIssue['field'], message: string, repaired: boolean) =>
+      issues.push({ platform: platform.name, field, message, repaired });
+
+    for (const field of ['title', 'description'] as const) {
+      const limit = platform.limits[field];
+      const value = (result[field] ?? '').trim();
+
+      if (!value) {
+        issue(field, 'puste pole', false);
+      } else if (value.length > limit) {
+        if (repair) result[field] = this.truncate(value, limit);
+        issue(field, `${value.length}/${limit} znaków`, repair);
+      }
+    }
+
+    const hashtags = this.parseHashtags(result.hashtags ?? '');
+    const { min, max } = platform.limits.hashtags;
+    if (hashtags.length > max) {
+      if (repair) result.hashtags = hashtags.slice(0, max).join(', ');
+      issue('hashtags', `${hashtags.length} hashtagów, maksymalnie ${max}`, repair);
+    } else if (hashtags.length < min) {
+      issue('hashtags', `${hashtags.length} hashtagów, minimum ${min}`, false);
+    }
+
+    return { content: result, issues };
+  }
+
+  /**
+   * Hashtags from a comma or space separated list, '#' added where missing, duplicates removed
+   */
+  static parseHashtags(value: string): string[] {
+    const tags = value
+      .split(/[,\s]+/)
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.replace(/^#+/, '').length > 0)
+      .map((tag) => `#${tag.replace(/^#+/, '')}`);
+
+    return [...new Set(tags)];
+  }
+
+  /**
+   * Cut to at most limit characters at a word boundary, ending with '…'
+   */
+  static truncate(value: string, limit: number): string {
+    const cut = value.slice(0, limit - 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    // Don't lose more than a fifth of the text just to end on a whole word
+    const end = lastSpace > limit * 0.8 ? lastSpace : cut.length;
+    return `${cut.slice(0, end).replace(/[\s,.;:–-]+$/, '')}…`;
+  }
+
+  private static validate(entry: Partial<PlatformDefinition>, index: number, fileName: string): PlatformDefinition {
+    const where = `Rejestr platform ${fileName}, pozycja ${index + 1}`;
+    const limits = entry.limits;
+
+    if (!entry.name || !/^[a-z0-9_-]+$/.test(entry.name)) {
+      throw new Error(`${where}: "name" musi być niepustym identyfikatorem (a-z, 0-9, _ -)`);
+    }
+    // Keys of the organized project's file list
+    if (['video', 'audio', 'srt'].includes(entry.name)) {
+      throw new Error(`${where}: nazwa "${entry.name}" jest zarezerwowana`);
+    }
+    if (
+      !limits ||
+      !(limits.title > 0) ||
+      !(limits.description > 0) ||
+      !limits.hashtags ||
+      !(limits.hashtags.min >= 0) ||
+      !(limits.hashtags.max >= limits.hashtags.min)
+    ) {
+      throw new Error(`${where} (${entry.name}): nieprawidłowe "limits" (title, description, hashtags.min/max)`);
+    }
+
+    return {
+      name: entry.name,
+      label: entry.label ?? entry.name,
+      // File name only - the project folder is the only place platform files go
+      fileName: path.basename(entry.fileName ?? `${entry.name}.txt`),
+      limits,
+      tone: entry.tone ?? '',
+    };
+  }
+}
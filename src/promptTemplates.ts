@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import { PromptInfo } from './types';
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface RenderedPrompt {
+  text: string;
+  info: PromptInfo;
+}
+
+const DEFAULT_PROFILE = 'default';
+
+/**
+ * Claude prompts as files: additional/prompts/<profile>/<template>.md with a
+ * `version:` header, plus profile.json with the channel's variables (brand phrase,
+ * audience, tone...). A profile only needs the files it changes -
+ * templates and variables it lacks come from the default profile.
+ *
+ * Syntax: {{name}} inserts a variable, {{#name}}...{{/name}} keeps the block only
+ * when the variable is not empty.
+ */
+export class PromptTemplates {
+  static getDir(profile: string): string {
+    return path.join(config.prompts.dir, profile);
+  }
+
+  static listProfiles(): string[] {
+    if (!fs.existsSync(config.prompts.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(config.prompts.dir)
+      .filter((entry) => fs.existsSync(path.join(config.prompts.dir, entry, 'profile.json')))
+      .sort();
+  }
+
+  /**
+   * Profile variables, layered over the default profile's
+   */
+  static loadProfile(profile: string = config.prompts.profile): PromptVariables {
+    const defaults = this.readProfileFile(DEFAULT_PROFILE);
+
+    if (profile === DEFAULT_PROFILE) {
+      return defaults ?? {};
+    }
+
+    const own = this.readProfileFile(profile);
+    if (!own) {
+      throw new Error(`Nieznany profil promptów: ${profile} (dostępne: ${this.listProfiles().join(', ')})`);
+    }
+    return { ...defaults, ...own };
+  }
+
+  /**
+   * Fill a template with the profile's variables and the call's own (transcript etc.)
+   */
+  static render(
+    template: string,
+    variables: PromptVariables = {},
+    profile: string = config.prompts.profile,
+  ): RenderedPrompt {
+    const filePath = this.findTemplate(template, profile);
+    const { version, body } = this.parse(fs.readFileSync(filePath, 'utf-8'), filePath);
+    const values: PromptVariables = { ...this.loadProfile(profile), ...variables };
+
+    const text = this.applySections(body, values).replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+      if (!(name in values)) {
+        throw new Error(`Prompt ${template} (${path.relative(config.prompts.dir, filePath)}): brak zmiennej "${name}"`);
+      }
+      return String(values[name]);
+    });
+
+    return {
+      text: text.trim(),
+      info: {
+        profile,
+        template,
+        version,
+        // Which file was used - a profile may fall back to the default one
+        source: path.relative(config.prompts.dir, filePath),
+      },
+    };
+  }
+
+  /**
+   * Keep or drop {{#name}} blocks (nested ones included). A block whose tags sit on
+   * their own lines leaves no empty line behind when dropped.
+   */
+  private static applySections(text: string, values: PromptVariables): string {
+    return text.replace(
+      /\{\{#(\w+)\}\}(\n?)([\s\S]*?)\{\{\/\1\}\}(\n?)/g,
+      (_match, name: string, openBreak: string, content: string, closeBreak: string) => {
+        const tail = openBreak ? '' : closeBreak;
+        return String(values[name] ?? '') ? this.applySections(content, values) + tail : tail;
+      },
+    );
+  }
+
+  private static findTemplate(template: string, profile: string): string {
+    for (const dir of [profile, DEFAULT_PROFILE]) {
+      const filePath = path.join(this.getDir(dir), `${template}.md`);
+      if (fs.existsSync(filePath)) {
+        return filePath;
+      }
+    }
+    throw new Error(`Brak szablonu promptu "${template}" w ${this.getDir(profile)} ani w ${this.getDir(DEFAULT_PROFILE)}`);
+  }
+
+  private static readProfileFile(profile: string): PromptVariables | null {
+    const filePath = path.join(this.getDir(profile), 'profile.json');
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as PromptVariables;
+  }
+
+  /**
+   * Split the `---` header from the body; the header must carry a version
+   */
+  private static parse(content: string, filePath: string): { version: string; body: string } {
+    const match = content.replace(/\r\n/g, '\n').match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+    const version = match?.[1]?.match(/^version:\s*(.+)$/m)?.[1]?.trim();
+
+    if (!match || !version) {
+      throw new Error(`Szablon ${path.basename(filePath)}: brak nagłówka z "version:" (--- version: 1 ---)`);
+    }
+
+    return { version, body: match[2] ?? '' };
+  }
+}
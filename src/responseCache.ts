@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+
+export type CacheKind = 'transcription' | 'claude';
+
+export const CACHE_KINDS: CacheKind[] = ['transcription', 'claude'];
+
+/** Inputs a key was built from, kept in the entry for inspection (large text only as a hash) */
+export type CacheParams = Record<string, string | number | boolean | null>;
+
+interface CacheEntry<T> {
+  key: string;
+  kind: CacheKind;
+  /** What the entry is for, e.g. "analysis video.mp4" - matched by invalidate */
+  label: string;
+  params: CacheParams;
+  createdAt: string;
+  value: T;
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  kind: CacheKind;
+  label: string;
+  params: CacheParams;
+  createdAt: string;
+  /** Last cache hit (or write) */
+  lastUsedAt: string;
+  sizeBytes: number;
+  file: string;
+}
+
+/**
+ * Paid API results stored under a hash of everything that determines them (input audio
+ * or prompt, model, parameters): cache/<kind>/<sha256>.json. A changed input gives a new
+ * key, so entries never go stale - old ones are only removed by prune or invalidate.
+ */
+export class ResponseCache {
+  static hash(value: string | Buffer): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  /**
+   * Key from the parts that determine the result - order of object keys doesn't matter
+   */
+  static key(parts: Record<string, unknown>): string {
+    return this.hash(JSON.stringify(this.sortKeys(parts)));
+  }
+
+  /**
+   * Cached value, or null when caching is off or there is no entry
+   */
+  static get<T>(kind: CacheKind, key: string): T | null {
+    if (!config.cache.enabled) {
+      return null;
+    }
+
+    const filePath = this.getPath(kind, key);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry<T>;
+      // Modification time = last use, for prune
+      const now = new Date();
+      fs.utimesSync(filePath, now, now);
+      return entry.value;
+    } catch (err) {
+      console.warn(`⚠ Uszkodzony wpis cache ${path.basename(filePath)} - pomijam: ${err}`);
+      return null;
+    }
+  }
+
+  static set<T>(kind: CacheKind, key: string, label: string, params: CacheParams, value: T): void {
+    if (!config.cache.enabled) {
+      return;
+    }
+
+    const filePath = this.getPath(kind, key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const entry: CacheEntry<T> = { key, kind, label, params, createdAt: new Date().toISOString(), value };
+    // Write-then-rename: an interrupted run never leaves a half-written entry behind
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(entry), 'utf-8');
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  static list(kind?: CacheKind): CacheEntryInfo[] {
+    const entries: CacheEntryInfo[] = [];
+
+    for (const entryKind of kind ? [kind] : CACHE_KINDS) {
+      const dir = path.join(config.cache.dir, entryKind);
+      if (!fs.existsSync(dir)) continue;
+
+      for (const fileName of fs.readdirSync(dir).filter((f) => f.endsWith('.json'))) {
+        const file = path.join(dir, fileName);
+        const stat = fs.statSync(file);
+        try {
+          const entry = JSON.parse(fs.readFileSync(file, 'utf-8')) as CacheEntry<unknown>;
+          entries.push({
+            key: entry.key,
+            kind: entryKind,
+            label: entry.label,
+            params: entry.params,
+            createdAt: entry.createdAt,
+            lastUsedAt: stat.mtime.toISOString(),
+            sizeBytes: stat.size,
+            file,
+          });
+        } catch {
+          entries.push({
+            key: path.basename(fileName, '.json'),
+            kind: entryKind,
+            label: '(uszkodzony wpis)',
+            params: {},
+            createdAt: stat.mtime.toISOString(),
+            lastUsedAt: stat.mtime.toISOString(),
+            sizeBytes: stat.size,
+            file,
+          });
+        }
+      }
+    }
+
+    return entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Remove entries of a kind and/or whose label contains `match` or whose key starts
+   * with it; no filter removes everything. Returns the entries removed.
+   */
+  static invalidate(filter: { kind?: CacheKind; match?: string } = {}): CacheEntryInfo[] {
+    const match = filter.match?.toLowerCase();
+    const removed = this.list(filter.kind).filter(
+      (entry) => !match || entry.key.startsWith(match) || entry.label.toLowerCase().includes(match),
+    );
+
+    for (const entry of removed) {
+      fs.rmSync(entry.file, { force: true });
+    }
+    return removed;
+  }
+
+  /**
+   * Remove entries not used for maxAgeDays, plus temp files left by interrupted writes
+   */
+  static prune(maxAgeDays: number = config.cache.maxAgeDays): CacheEntryInfo[] {
+    const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    const removed = this.list().filter((entry) => entry.lastUsedAt < cutoff);
+
+    for (const entry of removed) {
+      fs.rmSync(entry.file, { force: true });
+    }
+    for (const kind of CACHE_KINDS) {
+      const dir = path.join(config.cache.dir, kind);
+      if (!fs.existsSync(dir)) continue;
+      for (const fileName of fs.readdirSync(dir).filter((f) => f.endsWith('.tmp'))) {
+        fs.rmSync(path.join(dir, fileName), { force: true });
+      }
+    }
+
+    return removed;
+  }
+
+  private static getPath(kind: CacheKind, key: string): string {
+    return path.join(config.cache.dir, kind, `${key}.json`);
+  }
+
+  private static sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sortKeys(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((k) => [k, this.sortKeys((value as Record<string, unknown>)[k])]),
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,278 @@
+import { config } from './config';
+import { LlmMessage, LlmProvider } from './llmProviders';
+import { PromptTemplates } from './promptTemplates';
+import { ResponseCache } from './responseCache';
+import { PromptInfo } from './types';
+import { UsageApi, UsageLedger } from './usageLedger';
+
+/**
+ * Expected shape of a JSON response. Object properties are required unless listed in
+ * `optional`; properties not declared are ignored.
+ */
+export type Schema =
+  | { type: 'string'; minLength?: number; enum?: string[] }
+  | { type: 'number'; integer?: boolean; min?: number; max?: number }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; optional?: string[] };
+
+export interface StructuredRequest<T> {
+  /** Name for logs and errors, e.g. "analysis video.mp4" */
+  task: string;
+  prompt: string;
+  /** Template the prompt was rendered from - recorded with the cached response */
+  promptInfo?: PromptInfo;
+  schema: Schema;
+  maxTokens: number;
+  /** Checks the schema can't express (e.g. segment ids that exist); returns the errors found */
+  check?: (data: T) => string[];
+  /** Corrected responses asked for after the first one (default: config.claude.repairAttempts) */
+  repairAttempts?: number;
+}
+
+export interface StructuredResponse<T> {
+  data: T;
+  /** Requests made - 1 when the first response was valid, 0 when it came from the cache */
+  attempts: number;
+}
+
+/**
+ * Claude's response still failed validation after every repair attempt
+ */
+export class LlmOutputError extends Error {
+  constructor(
+    readonly task: string,
+    readonly attempts: number,
+    /** Validation errors of the last response */
+    readonly issues: string[],
+    readonly responseText: string,
+  ) {
+    super(`${task}: invalid response after ${attempts} attempt(s): ${issues.join('; ')}`);
+    this.name = 'LlmOutputError';
+  }
+}
+
+// Enough for Claude to fix the response without flooding the conversation
+const MAX_REPORTED_ISSUES = 20;
+
+/**
+ * JSON responses from Claude checked against a declared schema. A response that fails is
+ * sent back with its validation errors and Claude is asked for a corrected one. Valid
+ * responses are cached under the model, token budget, prompt and schema.
+ */
+export class StructuredOutput {
+  static async request<T>(llm: LlmProvider, request: StructuredRequest<T>): Promise<StructuredResponse<T>> {
+    const cacheParams = {
+      model: llm.model,
+      maxTokens: request.maxTokens,
+      prompt: ResponseCache.hash(request.prompt),
+      template: request.promptInfo ? `${request.promptInfo.source}@${request.promptInfo.version}` : null,
+    };
+    const cacheKey = ResponseCache.key({ ...cacheParams, schema: request.schema });
+
+    const cached = ResponseCache.get<T>('claude', cacheKey);
+    // Checks may depend on more than the prompt - a cached response has to pass them again
+    if (cached !== null && this.validate(cached, request.schema).length === 0 && !request.check?.(cached).length) {
+      console.log(`💾 ${request.task}: response from cache`);
+      UsageLedger.record({ api: this.usageApi(llm), model: llm.model, task: request.task, durationMs: 0, cached: true });
+      return { data: cached, attempts: 0 };
+    }
+
+    const maxAttempts = 1 + (request.repairAttempts ?? config.claude.repairAttempts);
+    const messages: LlmMessage[] = [{ role: 'user', content: request.prompt }];
+    let issues: string[] = [];
+    let responseText = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const startedAt = Date.now();
+      const response = await llm.complete({
+        maxTokens: request.maxTokens,
+        messages,
+        ...(request.promptInfo && { template: request.promptInfo.template }),
+      });
+      UsageLedger.record({
+        api: this.usageApi(llm),
+        model: response.model,
+        task: request.task,
+        durationMs: Date.now() - startedAt,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+      });
+
+      responseText = response.text;
+      const parsed = this.parse(responseText, request.schema);
+      issues = parsed.issues;
+
+      if (response.truncated) {
+        issues.unshift(`odpowiedź ucięta po ${request.maxTokens} tokenach - musi być krótsza`);
+      } else if (issues.length === 0) {
+        const data = parsed.value as T;
+        issues = request.check?.(data) ?? [];
+        if (issues.length === 0) {
+          ResponseCache.set('claude', cacheKey, request.task, cacheParams, data);
+          return { data, attempts: attempt };
+        }
+      }
+
+      issues = issues.slice(0, MAX_REPORTED_ISSUES);
+      if (attempt < maxAttempts) {
+        console.warn(`⚠ ${request.task}: invalid response (attempt ${attempt}/${maxAttempts}): ${issues.join('; ')}. Asking for a correction...`);
+        messages.push(
+          { role: 'assistant', content: responseText.trim() || '(pusta odpowiedź)' },
+          { role: 'user', content: this.repairPrompt(issues, request.schema) },
+        );
+      }
+    }
+
+    throw new LlmOutputError(request.task, maxAttempts, issues, responseText);
+  }
+
+  /**
+   * First JSON value of the schema's root type in the response (markdown fences and
+   * text around it are skipped), with its validation errors
+   */
+  static parse(text: string, schema: Schema): { value: unknown; issues: string[] } {
+    const json = this.extractJson(text, schema.type === 'array' ? '[' : '{');
+    if (json === null) {
+      return { value: null, issues: [`brak ${schema.type === 'array' ? 'tablicy' : 'obiektu'} JSON w odpowiedzi`] };
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch (err) {
+      return { value: null, issues: [`nieprawidłowy JSON: ${err instanceof Error ? err.message : err}`] };
+    }
+
+    return { value, issues: this.validate(value, schema) };
+  }
+
+  static validate(value: unknown, schema: Schema, at = '$'): string[] {
+    switch (schema.type) {
+      case 'string':
+        if (typeof value !== 'string') {
+          return [`${at}: oczekiwano tekstu, jest ${this.typeOf(value)}`];
+        }
+        if (schema.minLength && value.trim().length < schema.minLength) {
+          return [schema.minLength === 1 ? `${at}: pusty tekst` : `${at}: tekst krótszy niż ${schema.minLength} znaków`];
+        }
+        if (schema.enum && !schema.enum.includes(value)) {
+          return [`${at}: "${value}" - dozwolone: ${schema.enum.join(', ')}`];
+        }
+        return [];
+
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return [`${at}: oczekiwano liczby, jest ${this.typeOf(value)}`];
+        }
+        if (schema.integer && !Number.isInteger(value)) {
+          return [`${at}: oczekiwano liczby całkowitej, jest ${value}`];
+        }
+        if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+          return [`${at}: ${value} poza zakresem ${schema.min ?? '-∞'}..${schema.max ?? '∞'}`];
+        }
+        return [];
+
+      case 'array':
+        if (!Array.isArray(value)) {
+          return [`${at}: oczekiwano tablicy, jest ${this.typeOf(value)}`];
+        }
+        if (schema.minItems && value.length < schema.minItems) {
+          return [`${at}: ${value.length} elementów, minimum ${schema.minItems}`];
+        }
+        return value.flatMap((item, index) => this.validate(item, schema.items, `${at}[${index}]`));
+
+      case 'object': {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return [`${at}: oczekiwano obiektu, jest ${this.typeOf(value)}`];
+        }
+        const record = value as Record<string, unknown>;
+        return Object.entries(schema.properties).flatMap(([key, property]) => {
+          if (record[key] === undefined) {
+            return schema.optional?.includes(key) ? [] : [`${at}.${key}: brak pola`];
+          }
+          return this.validate(record[key], property, `${at}.${key}`);
+        });
+      }
+    }
+  }
+
+  /**
+   * The schema as a TypeScript-like type, for prompts
+   */
+  static describe(schema: Schema, indent = ''): string {
+    switch (schema.type) {
+      case 'string':
+        if (schema.enum) {
+          return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+        }
+        return schema.minLength ? 'string (niepusty)' : 'string';
+      case 'number': {
+        const range = schema.min !== undefined || schema.max !== undefined ? ` ${schema.min ?? ''}..${schema.max ?? ''}` : '';
+        return `${schema.integer ? 'integer' : 'number'}${range}`;
+      }
+      case 'array': {
+        const min = schema.minItems ? ` (min. ${schema.minItems})` : '';
+        return `Array<${this.describe(schema.items, indent)}>${min}`;
+      }
+      case 'object': {
+        const inner = `${indent}  `;
+        const lines = Object.entries(schema.properties).map(([key, property]) => {
+          const optional = schema.optional?.includes(key) ? '?' : '';
+          return `${inner}${JSON.stringify(key)}${optional}: ${this.describe(property, inner)}`;
+        });
+        return `{\n${lines.join(',\n')}\n${indent}}`;
+      }
+    }
+  }
+
+  private static usageApi(llm: LlmProvider): UsageApi {
+    return llm.name === 'anthropic' ? 'anthropic' : 'local';
+  }
+
+  private static repairPrompt(issues: string[], schema: Schema): string {
+    return PromptTemplates.render('json-repair', {
+      errors: issues.map((issue) => `- ${issue}`).join('\n'),
+      schema: this.describe(schema),
+    }).text;
+  }
+
+  /**
+   * Balanced JSON starting at the first `open` bracket - unlike a greedy regex it stops
+   * where the value ends, so text after the JSON (or a second JSON) doesn't break it
+   */
+  private static extractJson(text: string, open: '{' | '['): string | null {
+    const cleaned = text.replace(/```(?:json)?/gi, '');
+    const start = cleaned.indexOf(open);
+    if (start === -1) {
+      return null;
+    }
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < cleaned.length; i++) {
+      const char = cleaned[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 0) {
+          return cleaned.slice(start, i + 1);
+        }
+      }
+    }
+
+    // Unbalanced - let JSON.parse report where it ends
+    return cleaned.slice(start);
+  }
+
+  private static typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'tablica';
+    return typeof value;
+  }
+}
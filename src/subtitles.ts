@@ -0,0 +1,450 @@
+import { config } from './config';
+import { TranscriptionSegment, TranscriptionWord } from './types';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+/**
+ * Subtitle cue with times in seconds - the common currency of this module.
+ * Text may span several lines (joined with \n).
+ */
+export interface SubtitleCue {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptionWord[];
+}
+
+export interface SubtitleIssue {
+  cueId: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const TIMING_LINE = /^\s*(\S+)\s*-->\s*(\S+)/;
+
+/**
+ * One place for reading, writing and transforming subtitles (SRT, WebVTT, ASS).
+ * Parsers are lenient about what other tools produce: BOM, CRLF/CR line endings,
+ * missing or non-numeric cue numbers, blank lines inside a cue, '.' instead of ','.
+ */
+export class Subtitles {
+  // ---------------------------------------------------------------------------
+  // Timestamps
+
+  /**
+   * Accepts HH:MM:SS,mmm, HH:MM:SS.mmm, MM:SS.mmm and fractions with 1-3 digits
+   */
+  static parseTimestamp(value: string): number {
+    const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/);
+    if (!match) {
+      throw new Error(`Invalid subtitle timestamp: ${value}`);
+    }
+
+    const [, hours = '0', minutes = '0', secs = '0', fraction = '0'] = match;
+    return (
+      parseInt(hours, 10) * 3600 +
+      parseInt(minutes, 10) * 60 +
+      parseInt(secs, 10) +
+      parseInt(fraction.padEnd(3, '0'), 10) / 1000
+    );
+  }
+
+  /**
+   * HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm with separator '.' (WebVTT)
+   */
+  static formatTimestamp(seconds: number, separator: ',' | '.' = ','): string {
+    const totalMillis = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMillis / 3600000);
+    const minutes = Math.floor((totalMillis % 3600000) / 60000);
+    const secs = Math.floor((totalMillis % 60000) / 1000);
+    const millis = totalMillis % 1000;
+
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(millis).padStart(3, '0')}`;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Parsing
+
+  static parse(content: string, format: 'srt' | 'vtt'): SubtitleCue[] {
+    return format === 'vtt' ? this.parseVTT(content) : this.parseSRT(content);
+  }
+
+  static parseSRT(content: string): SubtitleCue[] {
+    return this.parseCues(this.normalizeLines(content));
+  }
+
+  static parseVTT(content: string): SubtitleCue[] {
+    const lines = this.normalizeLines(content);
+
+    // Drop the WEBVTT header and NOTE / STYLE / REGION blocks - they never contain '-->'
+    const cueLines: string[] = [];
+    let skippingBlock = false;
+    for (const [index, line] of lines.entries()) {
+      if (index === 0 && line.startsWith('WEBVTT')) {
+        skippingBlock = true;
+        continue;
+      }
+      if (/^(NOTE|STYLE|REGION)\b/.test(line)) {
+        skippingBlock = true;
+        continue;
+      }
+      if (skippingBlock) {
+        if (line.trim() === '') skippingBlock = false;
+        continue;
+      }
+      cueLines.push(line);
+    }
+
+    return this.parseCues(cueLines).map((cue) => ({
+      ...cue,
+      // Strip voice / class / timestamp tags (<v Name>, <c.red>, <00:01.000>)
+      text: cue.text.replace(/<[^>]+>/g, '').trim(),
+    }));
+  }
+
+  private static normalizeLines(content: string): string[] {
+    return content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .split('\n');
+  }
+
+  /**
+   * Cues are anchored on timing lines rather than blank-line separation, so a blank
+   * line inside a cue's text doesn't end the cue. A numeric line directly above a
+   * timing line is that cue's identifier, not text of the previous cue.
+   */
+  private static parseCues(lines: string[]): SubtitleCue[] {
+    const timingIndices = lines
+      .map((line, index) => (TIMING_LINE.test(line) ? index : -1))
+      .filter((index) => index >= 0);
+
+    const cues: SubtitleCue[] = [];
+
+    for (const [n, timingIndex] of timingIndices.entries()) {
+      const nextTimingIndex = timingIndices[n + 1] ?? lines.length;
+      const timing = lines[timingIndex]?.match(TIMING_LINE);
+      if (!timing?.[1] || !timing[2]) continue;
+
+      let start: number;
+      let end: number;
+      try {
+        start = this.parseTimestamp(timing[1]);
+        end = this.parseTimestamp(timing[2]);
+      } catch {
+        continue;
+      }
+
+      // Text runs until the next cue's identifier line (if any) or its timing line
+      let textEnd = nextTimingIndex;
+      const identifierLine = lines[nextTimingIndex - 1];
+      const lineBeforeIdentifier = lines[nextTimingIndex - 2];
+      if (
+        n + 1 < timingIndices.length &&
+        identifierLine !== undefined && identifierLine.trim() !== '' &&
+        (lineBeforeIdentifier === undefined || lineBeforeIdentifier.trim() === '')
+      ) {
+        textEnd = nextTimingIndex - 1;
+      }
+
+      const text = lines
+        .slice(timingIndex + 1, textEnd)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .join('\n');
+
+      const idLine = lines[timingIndex - 1]?.trim() ?? '';
+      const id = /^\d+$/.test(idLine) ? parseInt(idLine, 10) : cues.length + 1;
+
+      cues.push({ id, start, end, text });
+    }
+
+    return cues;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Serialization
+
+  static serializeSRT(cues: SubtitleCue[]): string {
+    return cues
+      .map(
+        cue =>
+          `${cue.id}\n${this.formatTimestamp(cue.start)} --> ${this.formatTimestamp(cue.end)}\n${cue.text}\n`,
+      )
+      .join('\n');
+  }
+
+  static serializeVTT(cues: SubtitleCue[]): string {
+    const body = cues.map(
+      cue =>
+        `${cue.id}\n${this.formatTimestamp(cue.start, '.')} --> ${this.formatTimestamp(cue.end, '.')}\n${cue.text}\n`,
+    );
+    return `WEBVTT\n\n${body.join('\n')}`;
+  }
+
+  /**
+   * Advanced SubStation Alpha with one "Default" style from config.subtitles.ass.
+   * With karaoke enabled and word timings available every word gets a \k tag.
+   */
+  static serializeASS(cues: SubtitleCue[]): string {
+    const style = config.subtitles.ass;
+
+    const header = [
+      '[Script Info]',
+      'ScriptType: v4.00+',
+      `PlayResX: ${style.playResX}`,
+      `PlayResY: ${style.playResY}`,
+      'WrapStyle: 0',
+      'ScaledBorderAndShadow: yes',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      `Style: Default,${style.fontName},${style.fontSize},${style.primaryColor},${style.highlightColor},${style.outlineColor},${style.backColor},${style.bold ? -1 : 0},0,0,0,100,100,0,0,1,${style.outline},${style.shadow},2,60,60,${style.marginV},1`,
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ];
+
+    const events = cues.map((cue) => {
+      const text = style.karaoke && cue.words && cue.words.length > 0
+        ? this.toKaraokeText(cue.words, cue.start)
+        : this.escapeAssText(cue.text);
+      return `Dialogue: 0,${this.formatAssTime(cue.start)},${this.formatAssTime(cue.end)},Default,,0,0,0,,${text}`;
+    });
+
+    return `${[...header, ...events].join('\n')}\n`;
+  }
+
+  static serialize(cues: SubtitleCue[], format: SubtitleFormat): string {
+    switch (format) {
+      case 'srt':
+        return this.serializeSRT(cues);
+      case 'vtt':
+        return this.serializeVTT(cues);
+      case 'ass':
+        return this.serializeASS(cues);
+    }
+  }
+
+  /**
+   * SRT / VTT text in, the other format out
+   */
+  static convert(content: string, from: 'srt' | 'vtt', to: SubtitleFormat): string {
+    return this.serialize(this.parse(content, from), to);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Conversion to and from the transcription segment type
+
+  static fromSegments(segments: TranscriptionSegment[]): SubtitleCue[] {
+    return segments.map((segment) => {
+      const cue: SubtitleCue = {
+        id: segment.id,
+        start: this.parseTimestamp(segment.startTime),
+        end: this.parseTimestamp(segment.endTime),
+        text: segment.text,
+      };
+      if (segment.words) {
+        cue.words = segment.words;
+      }
+      return cue;
+    });
+  }
+
+  static toSegments(cues: SubtitleCue[]): TranscriptionSegment[] {
+    return cues.map((cue) => {
+      const segment: TranscriptionSegment = {
+        id: cue.id,
+        startTime: this.formatTimestamp(cue.start),
+        endTime: this.formatTimestamp(cue.end),
+        text: cue.text,
+      };
+      if (cue.words) {
+        segment.words = cue.words;
+      }
+      return segment;
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Validation and transformations
+
+  static validate(cues: SubtitleCue[]): SubtitleIssue[] {
+    const issues: SubtitleIssue[] = [];
+    const seenIds = new Set<number>();
+
+    cues.forEach((cue, index) => {
+      if (cue.end <= cue.start) {
+        issues.push({ cueId: cue.id, severity: 'error', message: 'end time is not after start time' });
+      }
+      if (cue.text.trim().length === 0) {
+        issues.push({ cueId: cue.id, severity: 'warning', message: 'empty text' });
+      }
+      if (seenIds.has(cue.id)) {
+        issues.push({ cueId: cue.id, severity: 'warning', message: 'duplicate cue number' });
+      }
+      seenIds.add(cue.id);
+
+      const previous = cues[index - 1];
+      if (previous) {
+        if (cue.start < previous.start) {
+          issues.push({ cueId: cue.id, severity: 'error', message: 'starts before the previous cue' });
+        } else if (cue.start < previous.end) {
+          issues.push({ cueId: cue.id, severity: 'warning', message: `overlaps cue ${previous.id}` });
+        }
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Move every cue (and word) by offsetSeconds; times are clamped at zero
+   */
+  static shift(cues: SubtitleCue[], offsetSeconds: number): SubtitleCue[] {
+    return cues.map((cue) => {
+      const shifted: SubtitleCue = {
+        ...cue,
+        start: Math.max(0, cue.start + offsetSeconds),
+        end: Math.max(0, cue.end + offsetSeconds),
+      };
+      if (cue.words) {
+        shifted.words = cue.words.map((w) => ({
+          word: w.word,
+          start: Math.max(0, w.start + offsetSeconds),
+          end: Math.max(0, w.end + offsetSeconds),
+        }));
+      }
+      return shifted;
+    });
+  }
+
+  /**
+   * Renumber cues 1..n (optionally from another starting number)
+   */
+  static renumber(cues: SubtitleCue[], firstId = 1): SubtitleCue[] {
+    return cues.map((cue, index) => ({ ...cue, id: firstId + index }));
+  }
+
+  /**
+   * Combine cues into one spanning all of them; keeps the first cue's number
+   */
+  static merge(cues: SubtitleCue[]): SubtitleCue {
+    const [first] = cues;
+    if (!first) {
+      throw new Error('Cannot merge an empty list of cues');
+    }
+
+    const merged: SubtitleCue = {
+      id: first.id,
+      start: Math.min(...cues.map((c) => c.start)),
+      end: Math.max(...cues.map((c) => c.end)),
+      text: cues.map((c) => c.text.trim()).filter((t) => t.length > 0).join(' '),
+    };
+
+    const words = cues.flatMap((c) => c.words ?? []);
+    if (words.length > 0) {
+      merged.words = words;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Split a cue into parts no longer than maxDuration seconds and maxChars characters.
+   * Word timings are used when available, otherwise time is shared out by text length.
+   * The parts reuse the cue's number - call renumber() afterwards.
+   */
+  static split(cue: SubtitleCue, maxDuration: number, maxChars = Infinity): SubtitleCue[] {
+    const duration = cue.end - cue.start;
+    if (duration <= maxDuration && cue.text.length <= maxChars) {
+      return [cue];
+    }
+
+    const words: TranscriptionWord[] = cue.words && cue.words.length > 0
+      ? cue.words
+      : this.estimateWordTimings(cue);
+
+    const parts: SubtitleCue[] = [];
+    let current: TranscriptionWord[] = [];
+
+    const flush = (): void => {
+      const [first] = current;
+      const last = current[current.length - 1];
+      if (!first || !last) return;
+      parts.push({
+        id: cue.id,
+        start: parts.length === 0 ? cue.start : first.start,
+        end: last.end,
+        text: current.map((w) => w.word).join(' '),
+        words: current,
+      });
+      current = [];
+    };
+
+    for (const word of words) {
+      const [first] = current;
+      const text = [...current, word].map((w) => w.word).join(' ');
+      if (first && (word.end - first.start > maxDuration || text.length > maxChars)) {
+        flush();
+      }
+      current.push(word);
+    }
+    flush();
+
+    const last = parts[parts.length - 1];
+    if (last) {
+      last.end = cue.end;
+    }
+
+    if (!cue.words) {
+      parts.forEach((part) => delete part.words);
+    }
+
+    return parts;
+  }
+
+  private static estimateWordTimings(cue: SubtitleCue): TranscriptionWord[] {
+    const tokens = cue.text.split(/\s+/).filter((t) => t.length > 0);
+    const totalChars = tokens.reduce((sum, t) => sum + t.length, 0) || 1;
+    const secondsPerChar = (cue.end - cue.start) / totalChars;
+
+    let cursor = cue.start;
+    return tokens.map((token) => {
+      const start = cursor;
+      cursor += token.length * secondsPerChar;
+      return { word: token, start, end: cursor };
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // ASS helpers
+
+  private static toKaraokeText(words: TranscriptionWord[], cueStart: number): string {
+    let cursor = cueStart;
+
+    return words
+      .map((word) => {
+        // Gap before the word is folded into its duration so the sweep stays in sync
+        const centis = Math.max(0, Math.round((word.end - cursor) * 100));
+        cursor = word.end;
+        return `{\\k${centis}}${this.escapeAssText(word.word)}`;
+      })
+      .join(' ');
+  }
+
+  private static escapeAssText(text: string): string {
+    return text.replace(/\{/g, '(').replace(/\}/g, ')').replace(/\n/g, '\\N');
+  }
+
+  private static formatAssTime(seconds: number): string {
+    const totalCentis = Math.max(0, Math.round(seconds * 100));
+    const hours = Math.floor(totalCentis / 360000);
+    const minutes = Math.floor((totalCentis % 360000) / 6000);
+    const secs = Math.floor((totalCentis % 6000) / 100);
+    const centis = totalCentis % 100;
+
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(centis).padStart(2, '0')}`;
+  }
+}
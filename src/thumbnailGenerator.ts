@@ -0,0 +1,319 @@
+import fs from 'fs';
+import path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from './config';
+import { PlatformContentGenerator } from './platformContentGenerator';
+import { PlatformRegistry } from './platformRegistry';
+import { FfmpegBinaries } from './ffmpegBinaries';
+
+FfmpegBinaries.configure();
+
+export type ThumbnailMethod = 'sharpness' | 'scene';
+
+export type ThumbnailVariant = (typeof config.thumbnails.variants)[string];
+
+export const THUMBNAIL_METHODS: ThumbnailMethod[] = ['sharpness', 'scene'];
+
+export interface FrameScore {
+  /** Seconds from the start of the source file */
+  time: number;
+  /** Mean of the edge-detected frame - higher is sharper */
+  sharpness: number;
+  /** ffmpeg scene change score, 0-1 */
+  scene: number;
+}
+
+export interface ThumbnailSource {
+  /** Label used in file names: 'original' or 'clip-<id>' */
+  name: string;
+  file: string;
+  /** How many candidates to take from this source */
+  count: number;
+}
+
+export interface ThumbnailCandidate extends FrameScore {
+  source: string;
+  sourceFile: string;
+  /** Image file name per variant, e.g. { '16x9': 'original_1_16x9.jpg' } */
+  images: Record<string, string>;
+}
+
+export interface ThumbnailsResult {
+  outputDir: string;
+  title: string | null;
+  method: ThumbnailMethod;
+  candidates: ThumbnailCandidate[];
+}
+
+/**
+ * Thumbnail candidates: frames sampled at an interval and at scene changes are scored
+ * in one ffmpeg pass, the best ones are cropped to each variant and get the title drawn on
+ */
+export class ThumbnailGenerator {
+  static async generateThumbnails(
+    sources: ThumbnailSource[],
+    title: string | null,
+    outputDir: string,
+    method: string = config.thumbnails.method,
+  ): Promise<ThumbnailsResult> {
+    if (!THUMBNAIL_METHODS.includes(method as ThumbnailMethod)) {
+      throw new Error(`Nieznana metoda miniatur: ${method} (dostępne: ${THUMBNAIL_METHODS.join(', ')})`);
+    }
+
+    fs.mkdirSync(outputDir, { recursive: true });
+    console.log(`\n🖼  Generowanie miniatur (${method})...`);
+    if (!title) {
+      console.log('  ⚠ Brak tytułu YouTube - miniatury bez napisu');
+    }
+
+    const candidates: ThumbnailCandidate[] = [];
+
+    for (const source of sources) {
+      console.log(`  Analiza klatek: ${path.basename(source.file)}`);
+      const frames = await this.scoreFrames(source.file);
+      const picked = this.pickCandidates(frames, source.count, method as ThumbnailMethod);
+
+      if (picked.length === 0) {
+        console.log(`  ⚠ Brak klatek do wyboru w ${path.basename(source.file)}`);
+        continue;
+      }
+
+      for (const [index, frame] of picked.entries()) {
+        const images: Record<string, string> = {};
+
+        for (const variant of Object.keys(config.thumbnails.variants)) {
+          const fileName = `${source.name}_${index + 1}_${variant}.jpg`;
+          await this.renderThumbnail(source.file, frame.time, title, variant, path.join(outputDir, fileName));
+          images[variant] = fileName;
+        }
+
+        candidates.push({ ...frame, source: source.name, sourceFile: path.basename(source.file), images });
+        console.log(
+          `  ✓ ${source.name} #${index + 1}: ${frame.time.toFixed(1)}s ` +
+            `(ostrość ${frame.sharpness.toFixed(1)}, zmiana sceny ${frame.scene.toFixed(2)})`,
+        );
+      }
+    }
+
+    const result: ThumbnailsResult = { outputDir, title, method: method as ThumbnailMethod, candidates };
+    this.saveMetadata(result);
+    return result;
+  }
+
+  /**
+   * YouTube title from the project's YouTube platform file, or null when there is none
+   */
+  static findTitle(projectFolder: string): string | null {
+    const youtubePath = path.join(projectFolder, this.getYouTubeFileName());
+    if (!fs.existsSync(youtubePath)) {
+      return null;
+    }
+
+    const { title } = PlatformContentGenerator.parsePlatformFile(fs.readFileSync(youtubePath, 'utf-8'));
+    return title || null;
+  }
+
+  /**
+   * Platform file the title comes from - also what marks a folder as an organized project
+   */
+  static getYouTubeFileName(): string {
+    return PlatformRegistry.find('youtube')?.fileName ?? 'youtube.txt';
+  }
+
+  /**
+   * Score frames sampled every config.thumbnails.sampleInterval seconds and at each scene
+   * change. Analysis runs on a small copy so sharpness is comparable between sources.
+   */
+  static scoreFrames(filePath: string): Promise<FrameScore[]> {
+    const { sampleInterval, sceneThreshold } = config.thumbnails;
+    const frames: FrameScore[] = [];
+
+    return new Promise((resolve, reject) => {
+      ffmpeg(filePath)
+        .noAudio()
+        .videoFilters([
+          'scale=320:-2',
+          `select='gt(scene,${sceneThreshold})+isnan(prev_selected_t)+gte(t-prev_selected_t,${sampleInterval})'`,
+          'edgedetect',
+          'signalstats',
+          'metadata=print',
+        ])
+        .outputOptions(['-vsync', '0'])
+        .format('null')
+        .output('-')
+        // metadata=print logs a "pts_time:" line per frame followed by its keys
+        .on('stderr', (line: string) => {
+          const time = line.match(/pts_time:(\d+(?:\.\d+)?)/);
+          if (time) {
+            frames.push({ time: parseFloat(time[1]!), sharpness: 0, scene: 0 });
+            return;
+          }
+
+          const current = frames[frames.length - 1];
+          const scene = line.match(/lavfi\.scene_score=(\d+(?:\.\d+)?)/);
+          const sharpness = line.match(/lavfi\.signalstats\.YAVG=(\d+(?:\.\d+)?)/);
+          if (current && scene) current.scene = parseFloat(scene[1]!);
+          if (current && sharpness) current.sharpness = parseFloat(sharpness[1]!);
+        })
+        .on('end', () => resolve(frames))
+        .on('error', (err) => reject(err))
+        .run();
+    });
+  }
+
+  /**
+   * Best frames by the method's score, at least config.thumbnails.minGap apart
+   */
+  static pickCandidates(frames: FrameScore[], count: number, method: ThumbnailMethod): FrameScore[] {
+    const score = (frame: FrameScore): number =>
+      method === 'scene' ? frame.scene * 1000 + frame.sharpness : frame.sharpness;
+
+    const picked: FrameScore[] = [];
+    // Flat frames (black, fades) have almost no edges
+    const ranked = frames.filter((f) => f.sharpness > 0).sort((a, b) => score(b) - score(a));
+
+    for (const frame of ranked) {
+      if (picked.length >= count) break;
+      if (picked.every((p) => Math.abs(p.time - frame.time) >= config.thumbnails.minGap)) {
+        picked.push(frame);
+      }
+    }
+
+    return picked.sort((a, b) => a.time - b.time);
+  }
+
+  static renderThumbnail(
+    filePath: string,
+    time: number,
+    title: string | null,
+    variantName: string,
+    outputPath: string,
+  ): Promise<void> {
+    const variant = config.thumbnails.variants[variantName];
+    if (!variant) {
+      return Promise.reject(new Error(`Nieznany wariant miniatury: ${variantName}`));
+    }
+
+    const { width, height } = variant;
+    const filters = [
+      // Square pixels, then cover the variant and crop the center
+      'scale=iw*sar:ih',
+      `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+      `crop=${width}:${height}`,
+      'setsar=1',
+      ...(title ? this.buildTitleFilters(title, variant) : []),
+    ];
+
+    return new Promise((resolve, reject) => {
+      ffmpeg(filePath)
+        .seekInput(time)
+        .noAudio()
+        .frames(1)
+        .videoFilters(filters)
+        .outputOptions(['-q:v', '2'])
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .run();
+    });
+  }
+
+  /**
+   * One drawtext per line, so every line is centered on its own
+   */
+  static buildTitleFilters(title: string, variant: ThumbnailVariant): string[] {
+    const text = config.thumbnails.text;
+    let fontSize = variant.fontSize;
+    let lines = this.wrapTitle(title, variant.maxLineChars);
+
+    if (lines.length > variant.maxLines) {
+      // Shrink the font so the rewrapped title takes about maxLines lines
+      const scale = Math.sqrt(variant.maxLines / lines.length);
+      fontSize = Math.round(variant.fontSize * scale);
+      lines = this.wrapTitle(title, Math.floor(variant.maxLineChars / scale));
+    }
+
+    const lineHeight = Math.round(fontSize * 1.25);
+    const margin = Math.round(variant.height * 0.06);
+    const blockHeight = lines.length * lineHeight;
+
+    let top: number;
+    switch (text.position) {
+      case 'top':
+        top = margin;
+        break;
+      case 'center':
+        top = Math.round((variant.height - blockHeight) / 2);
+        break;
+      default:
+        top = variant.height - margin - blockHeight;
+    }
+
+    const font = text.fontFile
+      ? `fontfile=${this.filterValue(text.fontFile)}`
+      : `font=${this.filterValue(text.fontFamily)}`;
+
+    return lines.map((line, index) => {
+      const options = [
+        font,
+        `text=${this.filterValue(line)}`,
+        // Titles are plain text, not %{...} expressions
+        'expansion=none',
+        `fontsize=${fontSize}`,
+        `fontcolor=${text.fontColor}`,
+        `borderw=${text.borderWidth}`,
+        `bordercolor=${text.borderColor}`,
+        'x=(w-text_w)/2',
+        `y=${top + index * lineHeight}`,
+      ];
+      if (text.boxColor) {
+        options.push('box=1', `boxcolor=${text.boxColor}`, `boxborderw=${Math.round(fontSize * 0.2)}`);
+      }
+      return `drawtext=${options.join(':')}`;
+    });
+  }
+
+  /**
+   * Greedy word wrap; words longer than a line stay whole
+   */
+  static wrapTitle(title: string, maxLineChars: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of title.split(/\s+/).filter(Boolean)) {
+      if (current && current.length + 1 + word.length > maxLineChars) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) {
+      lines.push(current);
+    }
+
+    return lines;
+  }
+
+  private static saveMetadata(result: ThumbnailsResult): void {
+    const metadataPath = path.join(result.outputDir, 'thumbnails.json');
+    const metadata = {
+      title: result.title,
+      method: result.method,
+      createdAt: new Date().toISOString(),
+      candidates: result.candidates,
+    };
+
+    fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2), 'utf-8');
+    console.log(`✓ Metadane miniatur zapisane: ${metadataPath}`);
+  }
+
+  /**
+   * Quote a value for a filter option inside -vf: escaped once for the option parser
+   * and quoted again for the filtergraph parser
+   */
+  private static filterValue(value: string): string {
+    const option = value.replace(/[\\':]/g, (c) => `\\${c}`);
+    return `'${option.replace(/'/g, `'\\''`)}'`;
+  }
+}
@@ -1,65 +1,214 @@
-import OpenAI from 'openai';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { config } from './config';
-import { TranscriptionSegment } from './types';
-
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
+import { RichTranscript } from './types';
+import { AudioChunker } from './audioChunker';
+import { SubtitleCue, Subtitles } from './subtitles';
+import { TranscriptionOutput, TranscriptionProvider, createTranscriptionProvider } from './transcriptionProviders';
+import { Languages } from './languages';
+import { PipelineState } from './pipelineState';
+import { ResponseCache } from './responseCache';
+import { UsageApi, UsageLedger } from './usageLedger';
 
 export class Transcriber {
-  private static formatTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const millis = Math.floor((seconds % 1) * 1000);
+  static getTranscriptPath(srtPath: string): string {
+    return path.join(path.dirname(srtPath), `${path.basename(srtPath, '.srt')}_transcript.json`);
+  }
+
+  /**
+   * Transcribe audio to SRT, plus the formats from config.subtitles.formats and the
+   * rich JSON transcript with word timings. Returns paths of every file written.
+   * language: source language code or 'auto' (default: config.languages.source)
+   */
+  static async transcribeAudio(
+    audioPath: string,
+    outputSrtPath: string,
+    provider: TranscriptionProvider = createTranscriptionProvider(),
+    language?: string,
+  ): Promise<string[]> {
+    const requested = Languages.sourceFor(language);
+    console.log(`🎤 Transcribing audio: ${path.basename(audioPath)} (${provider.name}, language: ${requested ?? 'auto'})`);
+
+    try {
+      const output = await this.transcribeCached(audioPath, provider, requested);
+      const cues = Subtitles.fromSegments(output.segments);
+      if (!requested) {
+        console.log(`✓ Detected language: ${output.language ?? 'unknown'}`);
+      }
+      const written: string[] = [];
+
+      fs.writeFileSync(outputSrtPath, Subtitles.serializeSRT(cues), 'utf-8');
+      written.push(outputSrtPath);
+      console.log(`✓ Transcription saved: ${outputSrtPath}`);
+
+      for (const format of config.subtitles.formats) {
+        const outputPath = outputSrtPath.replace(/\.srt$/i, `.${format}`);
+        fs.writeFileSync(outputPath, Subtitles.serialize(cues, format), 'utf-8');
+        written.push(outputPath);
+        console.log(`✓ ${format.toUpperCase()} saved: ${path.basename(outputPath)}`);
+      }
 
-    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')},${String(millis).padStart(3, '0')}`;
+      const transcriptPath = this.getTranscriptPath(outputSrtPath);
+      this.saveRichTranscript(cues, audioPath, provider, output.language, transcriptPath);
+      written.push(transcriptPath);
+
+      return written;
+    } catch (err) {
+      console.error(`✗ Error transcribing audio: ${err}`);
+      throw err;
+    }
   }
 
-  private static generateSRT(segments: TranscriptionSegment[]): string {
-    return segments
-      .map(
-        segment =>
-          `${segment.id}\n${segment.startTime} --> ${segment.endTime}\n${segment.text}\n`,
-      )
-      .join('\n');
+  /**
+   * Transcription from the cache when this audio was already transcribed with the same
+   * backend, model and language
+   */
+  private static async transcribeCached(
+    audioPath: string,
+    provider: TranscriptionProvider,
+    language: string | undefined,
+  ): Promise<TranscriptionOutput> {
+    const { sha256 } = await PipelineState.fingerprint(audioPath);
+    const params = { audio: sha256, provider: provider.name, model: provider.model, language: language ?? 'auto' };
+    const cacheKey = ResponseCache.key(params);
+
+    const cached = ResponseCache.get<TranscriptionOutput>('transcription', cacheKey);
+    if (cached) {
+      console.log(`💾 Transcription from cache: ${path.basename(audioPath)}`);
+      UsageLedger.record({
+        api: this.usageApi(provider),
+        model: provider.model,
+        task: `transcription ${path.basename(audioPath)}`,
+        durationMs: 0,
+        // Entries cached before audio length was recorded have none
+        audioSeconds: cached.duration ?? 0,
+        cached: true,
+      });
+      return cached;
+    }
+
+    const output = await this.transcribeWithChunking(audioPath, provider, language);
+    ResponseCache.set('transcription', cacheKey, path.basename(audioPath), params, output);
+    return output;
   }
 
-  static async transcribeAudio(audioPath: string, outputSrtPath: string): Promise<void> {
-    console.log(`🎤 Transcribing audio: ${path.basename(audioPath)}`);
+  /**
+   * Transcribe in one request when the file fits the provider's limit, otherwise
+   * split at silences, transcribe each chunk and stitch the segments back together.
+   * The language detected in the first chunk is used for the rest, so a chunk of
+   * quotes or music can't switch the transcript to another language.
+   */
+  private static async transcribeWithChunking(
+    audioPath: string,
+    provider: TranscriptionProvider,
+    language: string | undefined,
+  ): Promise<TranscriptionOutput> {
+    const fileSize = fs.statSync(audioPath).size;
+
+    if (!provider.maxFileBytes || fileSize <= provider.maxFileBytes) {
+      return this.transcribeMeasured(audioPath, provider, language);
+    }
+
+    const analysis = await AudioChunker.detectSilences(audioPath);
+    // Chunk length that keeps every chunk under the size limit at this file's bitrate (10% headroom)
+    const bytesPerSecond = fileSize / Math.max(analysis.duration, 1);
+    const maxChunkSeconds = Math.min(
+      config.transcription.chunking.maxChunkSeconds,
+      Math.floor((provider.maxFileBytes / bytesPerSecond) * 0.9),
+    );
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vide-agent-chunks-'));
 
     try {
-      const audioFile = fs.createReadStream(audioPath);
-
-      const transcript = await openai.audio.transcriptions.create({
-        file: audioFile,
-        model: 'whisper-1',
-        language: config.whisper.language,
-        response_format: 'verbose_json',
-        timestamp_granularities: ['segment'],
-      });
+      const chunks = await AudioChunker.splitAudio(audioPath, analysis, maxChunkSeconds, workDir);
+      let cues: SubtitleCue[] = [];
+      let chunkLanguage = language;
+      let detected: string | null = language ?? null;
+      let duration = 0;
 
-      if (!('segments' in transcript) || !transcript.segments) {
-        throw new Error('No segments in transcription response');
+      for (const [index, chunk] of chunks.entries()) {
+        console.log(`🎤 Część ${index + 1}/${chunks.length} (od ${Subtitles.formatTimestamp(chunk.offset)})`);
+        const output = await this.transcribeMeasured(chunk.path, provider, chunkLanguage, path.basename(audioPath));
+        duration += output.duration;
+        if (!chunkLanguage && output.language) {
+          chunkLanguage = output.language;
+          detected = output.language;
+        }
+        cues.push(...Subtitles.shift(Subtitles.fromSegments(output.segments), chunk.offset));
       }
 
-      const segments: TranscriptionSegment[] = transcript.segments.map((segment, index) => ({
-        id: index + 1,
-        startTime: this.formatTime(segment.start),
-        endTime: this.formatTime(segment.end),
-        text: segment.text.trim(),
-      }));
+      // Continuous numbering across chunks
+      cues = Subtitles.renumber(cues);
+      return { segments: Subtitles.toSegments(cues), language: detected, duration };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
 
-      const srtContent = this.generateSRT(segments);
-      fs.writeFileSync(outputSrtPath, srtContent, 'utf-8');
+  /**
+   * One backend call, recorded in the usage ledger (audio length and wall-clock time)
+   */
+  private static async transcribeMeasured(
+    audioPath: string,
+    provider: TranscriptionProvider,
+    language: string | undefined,
+    sourceName: string = path.basename(audioPath),
+  ): Promise<TranscriptionOutput> {
+    const startedAt = Date.now();
+    const output = await provider.transcribe(audioPath, language);
+    UsageLedger.record({
+      api: this.usageApi(provider),
+      model: provider.model,
+      task: `transcription ${sourceName}`,
+      durationMs: Date.now() - startedAt,
+      audioSeconds: output.duration,
+    });
+    return output;
+  }
 
-      console.log(`✓ Transcription saved: ${outputSrtPath}`);
-    } catch (err) {
-      console.error(`✗ Error transcribing audio: ${err}`);
-      throw err;
+  private static usageApi(provider: TranscriptionProvider): UsageApi {
+    return provider.name === 'openai' ? 'openai' : 'local';
+  }
+
+  private static saveRichTranscript(
+    cues: SubtitleCue[],
+    audioPath: string,
+    provider: TranscriptionProvider,
+    language: string | null,
+    outputPath: string,
+  ): void {
+    const transcript: RichTranscript = {
+      audioFile: path.basename(audioPath),
+      provider: provider.name,
+      language: language ?? 'unknown',
+      createdAt: new Date().toISOString(),
+      segments: cues.map((cue) => ({
+        id: cue.id,
+        start: cue.start,
+        end: cue.end,
+        text: cue.text,
+        words: cue.words ?? [],
+      })),
+    };
+
+    fs.writeFileSync(outputPath, JSON.stringify(transcript, null, 2), 'utf-8');
+    console.log(`✓ Transcript JSON saved: ${path.basename(outputPath)}`);
+  }
+
+  static loadRichTranscript(srtPath: string): RichTranscript | null {
+    const transcriptPath = this.getTranscriptPath(srtPath);
+    if (!fs.existsSync(transcriptPath)) {
+      return null;
     }
+    return JSON.parse(fs.readFileSync(transcriptPath, 'utf-8')) as RichTranscript;
+  }
+
+  /**
+   * Language the video is spoken in, as transcribed; null for transcripts without one
+   */
+  static getSourceLanguage(srtPath: string): string | null {
+    return Languages.normalize(this.loadRichTranscript(srtPath)?.language);
   }
 
   static readSRT(srtPath: string): string {
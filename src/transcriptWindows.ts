@@ -0,0 +1,100 @@
+import { config } from './config';
+import { SubtitleCue, Subtitles } from './subtitles';
+import { WindowSummary } from './types';
+
+export interface TranscriptWindow {
+  /** Seconds from the start of the video */
+  start: number;
+  end: number;
+  cues: SubtitleCue[];
+}
+
+/**
+ * Splitting of transcripts too long for one prompt (config.longTranscripts) into
+ * overlapping time windows, and the compact text forms sent to Claude
+ */
+export class TranscriptWindows {
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / config.longTranscripts.charsPerToken);
+  }
+
+  /**
+   * Whether the transcript goes through window summaries instead of a single prompt
+   */
+  static shouldSplit(srtContent: string): boolean {
+    switch (config.longTranscripts.mode) {
+      case 'single':
+        return false;
+      case 'windows':
+        return true;
+      default:
+        return this.estimateTokens(srtContent) > config.longTranscripts.maxInputTokens;
+    }
+  }
+
+  /**
+   * Windows of windowSeconds, each starting overlapSeconds before the previous one ends,
+   * so a thought cut at a window boundary is seen whole in one of them. A cue belongs to
+   * every window it starts in.
+   */
+  static split(
+    cues: SubtitleCue[],
+    windowSeconds: number = config.longTranscripts.windowSeconds,
+    overlapSeconds: number = config.longTranscripts.overlapSeconds,
+  ): TranscriptWindow[] {
+    const last = cues[cues.length - 1];
+    if (!last) {
+      return [];
+    }
+
+    const step = Math.max(windowSeconds - overlapSeconds, 1);
+    const windows: TranscriptWindow[] = [];
+
+    for (let start = 0; start < last.end; start += step) {
+      const end = start + windowSeconds;
+      const windowCues = cues.filter((cue) => cue.start >= start && cue.start < end);
+      if (windowCues.length > 0) {
+        windows.push({ start, end: Math.min(end, last.end), cues: windowCues });
+      }
+      if (end >= last.end) {
+        break;
+      }
+    }
+
+    return windows;
+  }
+
+  /**
+   * One line per cue, "12 [00:14:03] text" - a third of the SRT's size with the ids and
+   * times the chapters need
+   */
+  static formatCues(cues: SubtitleCue[]): string {
+    return cues.map((cue) => `${cue.id} [${this.formatTime(cue.start)}] ${cue.text.replace(/\s+/g, ' ')}`).join('\n');
+  }
+
+  /**
+   * Window summaries as one text, in order, for the merge prompts
+   */
+  static formatDigest(windows: WindowSummary[]): string {
+    return windows
+      .map((window, index) => {
+        const lines = [
+          `## Fragment ${index + 1}/${windows.length} (${this.formatTime(window.start)}-${this.formatTime(window.end)}, ` +
+            `segmenty ${window.firstSegment}-${window.lastSegment})`,
+          window.summary,
+        ];
+        if (window.keyPoints.length > 0) {
+          lines.push('Kluczowe punkty:', ...window.keyPoints.map((point) => `- ${point}`));
+        }
+        if (window.chapters.length > 0) {
+          lines.push('Proponowane rozdziały:', ...window.chapters.map((c) => `- segment ${c.segment}: ${c.title}`));
+        }
+        return lines.join('\n');
+      })
+      .join('\n\n');
+  }
+
+  private static formatTime(seconds: number): string {
+    return Subtitles.formatTimestamp(seconds).slice(0, 8);
+  }
+}
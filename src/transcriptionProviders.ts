@@ -0,0 +1,355 @@
+import OpenAI from 'openai';
+import ffmpeg from 'fluent-ffmpeg';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from './config';
+import { TranscriptionSegment, TranscriptionWord } from './types';
+import { Subtitles } from './subtitles';
+import { Languages } from './languages';
+import { AudioChunker } from './audioChunker';
+import { FfmpegBinaries } from './ffmpegBinaries';
+
+FfmpegBinaries.configure();
+
+export type TranscriptionProviderName = 'openai' | 'local' | 'fake';
+
+export interface TranscriptionOutput {
+  segments: TranscriptionSegment[];
+  /** Language code the backend detected (or was given); null when it doesn't report one */
+  language: string | null;
+  /** Seconds of audio transcribed - what the API bills */
+  duration: number;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  /** Model the backend transcribes with - part of the cache key */
+  readonly model: string;
+  /** Largest audio file the backend accepts; longer audio gets chunked */
+  readonly maxFileBytes?: number;
+  /** language: ISO 639-1 code, undefined = detect */
+  transcribe(audioPath: string, language?: string): Promise<TranscriptionOutput>;
+}
+
+interface RawSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptionWord[];
+}
+
+/**
+ * Audio length for local backends, which don't report it - where the last segment ends
+ */
+function spokenDuration(raw: RawSegment[]): number {
+  return raw[raw.length - 1]?.end ?? 0;
+}
+
+function toSegments(raw: RawSegment[]): TranscriptionSegment[] {
+  return raw
+    .filter((segment) => segment.text.trim().length > 0)
+    .map((segment, index) => {
+      const result: TranscriptionSegment = {
+        id: index + 1,
+        startTime: Subtitles.formatTimestamp(segment.start),
+        endTime: Subtitles.formatTimestamp(segment.end),
+        text: segment.text.trim(),
+      };
+      if (segment.words && segment.words.length > 0) {
+        result.words = segment.words
+          .map((w) => ({ word: w.word.trim(), start: w.start, end: w.end }))
+          .filter((w) => w.word.length > 0);
+      }
+      return result;
+    });
+}
+
+/**
+ * Whisper API returns words as one flat list - hand each word to the segment it starts in
+ */
+function assignWords(segments: RawSegment[], words: TranscriptionWord[]): RawSegment[] {
+  return segments.map((segment, index) => {
+    const isLast = index === segments.length - 1;
+    return {
+      ...segment,
+      words: words.filter((w) => w.start >= segment.start - 0.01 && (isLast || w.start < segment.end)),
+    };
+  });
+}
+
+/**
+ * OpenAI Whisper API - audio leaves the machine
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  readonly model = config.whisper.model;
+  // The API rejects uploads over 25 MB - keep some headroom
+  readonly maxFileBytes = 24 * 1024 * 1024;
+  private readonly client: OpenAI;
+
+  constructor(apiKey: string = config.openai.apiKey) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async transcribe(audioPath: string, language?: string): Promise<TranscriptionOutput> {
+    const transcript = await this.client.audio.transcriptions.create({
+      file: fs.createReadStream(audioPath),
+      model: this.model,
+      // Without a language the API detects it
+      ...(language && { language }),
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment', 'word'],
+    });
+
+    if (!('segments' in transcript) || !transcript.segments) {
+      throw new Error('No segments in transcription response');
+    }
+
+    return {
+      segments: toSegments(assignWords(transcript.segments, transcript.words ?? [])),
+      // verbose_json reports the language by its English name
+      language: language ?? Languages.normalize(transcript.language),
+      duration: transcript.duration,
+    };
+  }
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: Array<{
+      text: string;
+      offsets: { from: number; to: number };
+    }>;
+  }>;
+}
+
+interface FasterWhisperOutput {
+  language?: string;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+    words?: Array<{ start: number; end: number; word: string }>;
+  }>;
+}
+
+/**
+ * whisper.cpp reports sub-word tokens; a token starting with a space begins a new word.
+ * Special tokens ([_BEG_], [_TT_123] ...) carry no text.
+ */
+function mergeWhisperCppTokens(
+  tokens: Array<{ text: string; offsets: { from: number; to: number } }>,
+): TranscriptionWord[] {
+  const words: TranscriptionWord[] = [];
+
+  for (const token of tokens) {
+    if (/^\[_.*\]$/.test(token.text.trim())) {
+      continue;
+    }
+
+    const last = words[words.length - 1];
+    if (last && !token.text.startsWith(' ')) {
+      last.word += token.text;
+      last.end = token.offsets.to / 1000;
+    } else {
+      words.push({ word: token.text, start: token.offsets.from / 1000, end: token.offsets.to / 1000 });
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Local whisper.cpp (`whisper-cli`) or faster-whisper (`whisper-ctranslate2`) binary,
+ * run as a subprocess - audio never leaves the machine and no network is needed
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(
+    private readonly settings: typeof config.transcription.local = config.transcription.local,
+  ) {
+    this.name = `local:${settings.engine}`;
+    this.model = settings.model || (settings.engine === 'faster-whisper' ? 'small' : '');
+  }
+
+  async transcribe(audioPath: string, language?: string): Promise<TranscriptionOutput> {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vide-agent-whisper-'));
+
+    try {
+      return this.settings.engine === 'faster-whisper'
+        ? await this.transcribeFasterWhisper(audioPath, workDir, language)
+        : await this.transcribeWhisperCpp(audioPath, workDir, language);
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async transcribeWhisperCpp(audioPath: string, workDir: string, language?: string): Promise<TranscriptionOutput> {
+    if (!this.model) {
+      throw new Error('whisper.cpp requires LOCAL_WHISPER_MODEL (path to a ggml model file)');
+    }
+
+    // whisper.cpp only reads 16 kHz mono WAV
+    const wavPath = path.join(workDir, 'audio.wav');
+    await this.convertToWav(audioPath, wavPath);
+
+    const outputPrefix = path.join(workDir, 'transcript');
+    await this.run([
+      '-m', this.model,
+      '-f', wavPath,
+      '-l', language ?? 'auto',
+      '-t', String(this.settings.threads),
+      // Full JSON - includes per-token timings
+      '-ojf',
+      '-of', outputPrefix,
+      ...this.settings.extraArgs,
+    ]);
+
+    const output = JSON.parse(fs.readFileSync(`${outputPrefix}.json`, 'utf-8')) as WhisperCppOutput;
+    if (!output.transcription) {
+      throw new Error('No transcription in whisper.cpp output');
+    }
+
+    const segments = output.transcription.map((item) => ({
+      start: item.offsets.from / 1000,
+      end: item.offsets.to / 1000,
+      text: item.text,
+      words: mergeWhisperCppTokens(item.tokens ?? []),
+    }));
+
+    return {
+      segments: toSegments(segments),
+      language: language ?? Languages.normalize(output.result?.language),
+      duration: spokenDuration(segments),
+    };
+  }
+
+  private async transcribeFasterWhisper(audioPath: string, workDir: string, language?: string): Promise<TranscriptionOutput> {
+    await this.run([
+      audioPath,
+      '--model', this.model,
+      // No --language = detected from the first 30 seconds
+      ...(language ? ['--language', language] : []),
+      '--threads', String(this.settings.threads),
+      '--output_format', 'json',
+      '--word_timestamps', 'True',
+      '--output_dir', workDir,
+      ...this.settings.extraArgs,
+    ]);
+
+    const outputPath = path.join(workDir, `${path.basename(audioPath, path.extname(audioPath))}.json`);
+    const output = JSON.parse(fs.readFileSync(outputPath, 'utf-8')) as FasterWhisperOutput;
+    if (!output.segments) {
+      throw new Error('No segments in faster-whisper output');
+    }
+
+    return {
+      segments: toSegments(output.segments),
+      language: language ?? Languages.normalize(output.language),
+      duration: spokenDuration(output.segments),
+    };
+  }
+
+  private convertToWav(inputPath: string, outputPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      ffmpeg(inputPath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(16000)
+        .audioCodec('pcm_s16le')
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .run();
+    });
+  }
+
+  private run(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.settings.binaryPath, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+
+      child.stderr.on('data', (chunk) => {
+        // Keep only the tail - whisper binaries are chatty
+        stderr = (stderr + chunk.toString()).slice(-4000);
+      });
+      child.on('error', (err) => {
+        reject(new Error(`Cannot run ${this.settings.binaryPath}: ${err.message}`));
+      });
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${this.settings.binaryPath} exited with code ${code}:\n${stderr.trim()}`));
+        }
+      });
+    });
+  }
+}
+
+interface TranscriptionFixture {
+  language: string;
+  /** Spoken lines, one segment each */
+  lines: string[];
+}
+
+/**
+ * Canned transcript for offline runs: the lines of <fixtures>/transcription.json spread
+ * evenly over the audio (words too), whatever is actually said in it
+ */
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'fake';
+  readonly model = 'fake';
+
+  constructor(private readonly fixturePath: string = path.join(config.fixtures.dir, 'transcription.json')) {}
+
+  async transcribe(audioPath: string, language?: string): Promise<TranscriptionOutput> {
+    if (!fs.existsSync(this.fixturePath)) {
+      throw new Error(`No transcription fixture: ${this.fixturePath}`);
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(this.fixturePath, 'utf-8')) as TranscriptionFixture;
+    const { duration } = await AudioChunker.detectSilences(audioPath);
+    const lineSeconds = duration / Math.max(fixture.lines.length, 1);
+
+    const segments = fixture.lines.map((text, index) => {
+      const start = index * lineSeconds;
+      const words = text.split(/\s+/).filter(Boolean);
+      const wordSeconds = lineSeconds / Math.max(words.length, 1);
+      return {
+        start,
+        end: start + lineSeconds,
+        text,
+        words: words.map((word, i) => ({ word, start: start + i * wordSeconds, end: start + (i + 1) * wordSeconds })),
+      };
+    });
+
+    return {
+      segments: toSegments(segments),
+      language: language ?? fixture.language,
+      duration,
+    };
+  }
+}
+
+export function createTranscriptionProvider(
+  name: TranscriptionProviderName = config.transcription.provider,
+): TranscriptionProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAITranscriptionProvider();
+    case 'local':
+      return new LocalWhisperProvider();
+    case 'fake':
+      return new FakeTranscriptionProvider();
+    default:
+      throw new Error(`Unknown transcription provider: ${name}`);
+  }
+}
@@ -13,16 +13,82 @@ export interface VideoFile {
   ext: string;
 }
 
+export interface TranscriptionWord {
+  word: string;
+  /** Seconds from the start of the audio */
+  start: number;
+  end: number;
+}
+
 export interface TranscriptionSegment {
   id: number;
   startTime: string;
   endTime: string;
   text: string;
+  words?: TranscriptionWord[];
+}
+
+/**
+ * Full transcript saved next to the SRT (<videoName>_transcript.json),
+ * keeping what SRT cannot hold: word timings and the backend used
+ */
+export interface RichTranscript {
+  audioFile: string;
+  provider: string;
+  /** Language code spoken in the audio, 'unknown' when the backend didn't report it */
+  language: string;
+  createdAt: string;
+  segments: Array<{
+    id: number;
+    start: number;
+    end: number;
+    text: string;
+    words: TranscriptionWord[];
+  }>;
+}
+
+export interface Chapter {
+  /** Seconds from the start of the video */
+  start: number;
+  title: string;
+}
+
+/**
+ * One window of a transcript too long for a single prompt, summarized on its own
+ */
+export interface WindowSummary {
+  /** Seconds from the start of the video */
+  start: number;
+  end: number;
+  firstSegment: number;
+  lastSegment: number;
+  summary: string;
+  keyPoints: string[];
+  /** Chapters proposed within the window, as SRT segment ids */
+  chapters: Array<{ segment: number; title: string }>;
+}
+
+/**
+ * Prompt a Claude result was generated with - stored in the result for tracing
+ */
+export interface PromptInfo {
+  profile: string;
+  template: string;
+  version: string;
+  /** Template file, relative to the prompts directory */
+  source: string;
 }
 
 export interface AnalysisResult {
   videoName: string;
   summary: string;
   keyPoints: string[];
+  /** Chapters of the original video, already meeting YouTube's rules (empty when they can't) */
+  chapters?: Chapter[];
+  /** Language code the summary and chapter titles are written in */
+  language?: string;
+  /** Window summaries the analysis was merged from (long transcripts only) */
+  windows?: WindowSummary[];
+  prompt?: PromptInfo;
   timestamp: string;
 }
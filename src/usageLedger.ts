@@ -0,0 +1,231 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+
+export type UsageApi = 'openai' | 'anthropic' | 'local';
+
+/**
+ * One API call (or a cache hit that replaced one)
+ */
+export interface UsageRecord {
+  at: string;
+  /** Start of the run the call was made in - groups the calls of one invocation */
+  runId: string;
+  api: UsageApi;
+  model: string;
+  /** What the call was for, e.g. "analysis video.mp4" */
+  task: string;
+  audioSeconds: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Wall-clock time of the call */
+  durationMs: number;
+  costUsd: number;
+  /** false: no price for the model in config.usage.prices - costUsd is 0 */
+  priced: boolean;
+  /** Served from the cache, nothing billed */
+  cached: boolean;
+}
+
+/**
+ * Per-video ledger: usage/<videoName>.json, appended to by every run
+ */
+export interface UsageLedgerFile {
+  videoName: string;
+  records: UsageRecord[];
+}
+
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  audioSeconds: number;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+  costUsd: number;
+  /** Some calls had no price */
+  unpriced: boolean;
+}
+
+const UNASSIGNED = '(bez filmu)';
+
+/**
+ * Usage and cost of every Whisper and Claude call, charged to the video being processed.
+ * Agent steps run their work inside track(videoName, ...); calls made there are appended
+ * to that video's ledger and to this run's totals.
+ */
+export class UsageLedger {
+  static readonly runId = new Date().toISOString();
+
+  private static readonly currentVideo = new AsyncLocalStorage<string>();
+  private static readonly runRecords: Array<{ videoName: string; record: UsageRecord }> = [];
+  private static readonly warnedModels = new Set<string>();
+
+  static track<T>(videoName: string, run: () => Promise<T>): Promise<T> {
+    return this.currentVideo.run(videoName, run);
+  }
+
+  static record(call: {
+    api: UsageApi;
+    model: string;
+    task: string;
+    durationMs: number;
+    audioSeconds?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+    cached?: boolean;
+  }): UsageRecord {
+    const usage = {
+      audioSeconds: call.audioSeconds ?? 0,
+      inputTokens: call.inputTokens ?? 0,
+      outputTokens: call.outputTokens ?? 0,
+    };
+    const cached = call.cached ?? false;
+    const { costUsd, priced } = cached ? { costUsd: 0, priced: true } : this.cost(call.api, call.model, usage);
+
+    if (!priced && !this.warnedModels.has(call.model)) {
+      this.warnedModels.add(call.model);
+      console.warn(`⚠ Brak ceny modelu ${call.model} w config.usage.prices - koszt liczony jako 0`);
+    }
+
+    const record: UsageRecord = {
+      at: new Date().toISOString(),
+      runId: this.runId,
+      api: call.api,
+      model: call.model,
+      task: call.task,
+      ...usage,
+      durationMs: Math.round(call.durationMs),
+      costUsd,
+      priced,
+      cached,
+    };
+
+    const videoName = this.currentVideo.getStore();
+    this.runRecords.push({ videoName: videoName ?? UNASSIGNED, record });
+    if (videoName) {
+      this.append(videoName, record);
+    }
+    return record;
+  }
+
+  /**
+   * Cost from the price table; local backends cost nothing
+   */
+  static cost(
+    api: UsageApi,
+    model: string,
+    usage: { audioSeconds: number; inputTokens: number; outputTokens: number },
+  ): { costUsd: number; priced: boolean } {
+    if (api === 'local') {
+      return { costUsd: 0, priced: true };
+    }
+
+    const price = config.usage.prices[model];
+    if (!price) {
+      return { costUsd: 0, priced: false };
+    }
+
+    const costUsd =
+      (usage.inputTokens * (price.inputPerMTok ?? 0) + usage.outputTokens * (price.outputPerMTok ?? 0)) / 1_000_000 +
+      (usage.audioSeconds / 60) * (price.perMinute ?? 0);
+    return { costUsd, priced: true };
+  }
+
+  /**
+   * Totals of this run per video, in the order the videos were processed
+   */
+  static getRunTotals(): Map<string, UsageTotals> {
+    const totals = new Map<string, UsageTotals>();
+    for (const { videoName, record } of this.runRecords) {
+      totals.set(videoName, this.add(totals.get(videoName), record));
+    }
+    return totals;
+  }
+
+  /**
+   * Totals per video from every ledger, for records whose date starts with `period`
+   * ('2026-10' = one month; empty = all time)
+   */
+  static getTotals(period = ''): Map<string, UsageTotals> {
+    const totals = new Map<string, UsageTotals>();
+
+    for (const ledger of this.loadAll()) {
+      for (const record of ledger.records.filter((r) => r.at.startsWith(period))) {
+        totals.set(ledger.videoName, this.add(totals.get(ledger.videoName), record));
+      }
+    }
+    return totals;
+  }
+
+  static sum(totals: Iterable<UsageTotals>): UsageTotals {
+    const result = this.empty();
+    for (const t of totals) {
+      result.calls += t.calls;
+      result.cachedCalls += t.cachedCalls;
+      result.audioSeconds += t.audioSeconds;
+      result.inputTokens += t.inputTokens;
+      result.outputTokens += t.outputTokens;
+      result.durationMs += t.durationMs;
+      result.costUsd += t.costUsd;
+      result.unpriced ||= t.unpriced;
+    }
+    return result;
+  }
+
+  static getLedgerPath(videoName: string): string {
+    return path.join(config.usage.dir, `${videoName}.json`);
+  }
+
+  static load(videoName: string): UsageLedgerFile {
+    const filePath = this.getLedgerPath(videoName);
+    if (!fs.existsSync(filePath)) {
+      return { videoName, records: [] };
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as UsageLedgerFile;
+  }
+
+  private static loadAll(): UsageLedgerFile[] {
+    if (!fs.existsSync(config.usage.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(config.usage.dir)
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => this.load(path.basename(f, '.json')));
+  }
+
+  private static append(videoName: string, record: UsageRecord): void {
+    const ledger = this.load(videoName);
+    ledger.records.push(record);
+    fs.mkdirSync(config.usage.dir, { recursive: true });
+    fs.writeFileSync(this.getLedgerPath(videoName), JSON.stringify(ledger, null, 2), 'utf-8');
+  }
+
+  private static add(totals: UsageTotals = this.empty(), record: UsageRecord): UsageTotals {
+    return {
+      calls: totals.calls + 1,
+      cachedCalls: totals.cachedCalls + (record.cached ? 1 : 0),
+      audioSeconds: totals.audioSeconds + (record.cached ? 0 : record.audioSeconds),
+      inputTokens: totals.inputTokens + record.inputTokens,
+      outputTokens: totals.outputTokens + record.outputTokens,
+      durationMs: totals.durationMs + record.durationMs,
+      costUsd: totals.costUsd + record.costUsd,
+      unpriced: totals.unpriced || !record.priced,
+    };
+  }
+
+  private static empty(): UsageTotals {
+    return {
+      calls: 0,
+      cachedCalls: 0,
+      audioSeconds: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      durationMs: 0,
+      costUsd: 0,
+      unpriced: false,
+    };
+  }
+}
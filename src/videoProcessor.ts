@@ -1,11 +1,11 @@
 import ffmpeg from 'fluent-ffmpeg';
-import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import fs from 'fs';
 import path from 'path';
 import { config } from './config';
 import { VideoFile } from './types';
+import { FfmpegBinaries } from './ffmpegBinaries';
 
-ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+FfmpegBinaries.configure();
 
 export class VideoProcessor {
   static getVideoFiles(): VideoFile[] {
@@ -61,10 +61,16 @@ export class VideoProcessor {
     });
   }
 
-  static async processVideo(videoFile: VideoFile): Promise<{ audioPath: string; videoPath: string }> {
+  static getOutputPaths(videoFile: VideoFile): { audioPath: string; videoPath: string } {
     const baseName = path.basename(videoFile.name, videoFile.ext);
-    const audioPath = path.join(config.paths.separated, `${baseName}.mp3`);
-    const videoPath = path.join(config.paths.separated, videoFile.name);
+    return {
+      audioPath: path.join(config.paths.separated, `${baseName}.mp3`),
+      videoPath: path.join(config.paths.separated, videoFile.name),
+    };
+  }
+
+  static async processVideo(videoFile: VideoFile): Promise<{ audioPath: string; videoPath: string }> {
+    const { audioPath, videoPath } = this.getOutputPaths(videoFile);
 
     // Ensure output directory exists
     if (!fs.existsSync(config.paths.separated)) {
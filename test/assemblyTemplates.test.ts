@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AssemblyTemplate, AssemblyTemplates } from '../src/assemblyTemplates';
+
+const CUT = { type: 'cut' };
+
+const sources = {
+  clips: [
+    { id: 3, file: 'clip3.mp4' },
+    { id: 7, file: 'clip7.mp4' },
+  ],
+  originalPath: 'original.mp4',
+};
+
+function files(template: AssemblyTemplate, introOverride?: string | null): string[] {
+  return AssemblyTemplates.buildTimeline(template, { ...sources, introOverride }).map((item) => item.file);
+}
+
+describe('AssemblyTemplates.buildTimeline', () => {
+  it('expands the highlights into one item per clip', () => {
+    const template: AssemblyTemplate = {
+      name: 'test',
+      defaultTransition: CUT,
+      timeline: [{ type: 'highlights' }, { type: 'original' }],
+    };
+
+    assert.deepEqual(files(template, null), ['clip3.mp4', 'clip7.mp4', 'original.mp4']);
+  });
+
+  it('adds a chosen intro before the original when the template has no intro', () => {
+    const template: AssemblyTemplate = {
+      name: 'test',
+      defaultTransition: CUT,
+      timeline: [{ type: 'highlights' }, { type: 'original' }],
+    };
+
+    assert.deepEqual(files(template, 'intro.mp4'), ['clip3.mp4', 'clip7.mp4', 'intro.mp4', 'original.mp4']);
+  });
+
+  it('puts a chosen intro in place of the template intro, or drops it', () => {
+    const template: AssemblyTemplate = {
+      name: 'test',
+      defaultTransition: CUT,
+      timeline: [{ type: 'intro', optional: true }, { type: 'highlights' }, { type: 'original' }],
+    };
+
+    assert.deepEqual(files(template, 'moje-intro.mp4'), ['moje-intro.mp4', 'clip3.mp4', 'clip7.mp4', 'original.mp4']);
+    assert.deepEqual(files(template, null), ['clip3.mp4', 'clip7.mp4', 'original.mp4']);
+  });
+});
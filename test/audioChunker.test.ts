@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AudioChunker } from '../src/audioChunker';
+
+describe('AudioChunker.planChunks', () => {
+  it('keeps audio shorter than the limit in one chunk', () => {
+    assert.deepEqual(AudioChunker.planChunks(90, [], 120), [{ start: 0, end: 90 }]);
+  });
+
+  it('cuts in the middle of the latest silence that fits', () => {
+    const silences = [
+      { start: 70, end: 72 },
+      { start: 100, end: 104 },
+      { start: 130, end: 132 },
+    ];
+    assert.deepEqual(AudioChunker.planChunks(200, silences, 120), [
+      { start: 0, end: 102 },
+      { start: 102, end: 200 },
+    ]);
+  });
+
+  it('ignores silences in the first half of the window', () => {
+    const silences = [{ start: 20, end: 22 }];
+    assert.deepEqual(AudioChunker.planChunks(150, silences, 100), [
+      { start: 0, end: 100 },
+      { start: 100, end: 150 },
+    ]);
+  });
+
+  it('falls back to hard cuts without silences', () => {
+    assert.deepEqual(AudioChunker.planChunks(250, [], 100), [
+      { start: 0, end: 100 },
+      { start: 100, end: 200 },
+      { start: 200, end: 250 },
+    ]);
+  });
+
+  it('covers the whole duration without gaps or overlong chunks', () => {
+    const silences = Array.from({ length: 30 }, (_, i) => ({ start: i * 37 + 10, end: i * 37 + 11 }));
+    const ranges = AudioChunker.planChunks(1000, silences, 120);
+
+    assert.equal(ranges[0]?.start, 0);
+    assert.equal(ranges[ranges.length - 1]?.end, 1000);
+    ranges.forEach((range, i) => {
+      assert.ok(range.end - range.start <= 120);
+      if (i > 0) assert.equal(range.start, ranges[i - 1]?.end);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Chapters } from '../src/chapters';
+import { config } from '../src/config';
+
+const { minLength, preludeTitle } = config.chapters;
+
+describe('Chapters.enforceYouTubeRules', () => {
+  it('moves the first chapter to 0 and sorts the rest', () => {
+    const chapters = Chapters.enforceYouTubeRules(
+      [
+        { start: 120, title: 'Trzeci' },
+        { start: 4, title: 'Pierwszy' },
+        { start: 60, title: 'Drugi' },
+      ],
+      300,
+    );
+
+    assert.deepEqual(chapters, [
+      { start: 0, title: 'Pierwszy' },
+      { start: 60, title: 'Drugi' },
+      { start: 120, title: 'Trzeci' },
+    ]);
+  });
+
+  it('drops chapters shorter than the minimum length', () => {
+    const chapters = Chapters.enforceYouTubeRules(
+      [
+        { start: 0, title: 'A' },
+        { start: minLength - 1, title: 'za krótki' },
+        { start: 60, title: 'B' },
+        { start: 120, title: 'C' },
+        { start: 300 - minLength + 1, title: 'za blisko końca' },
+      ],
+      300,
+    );
+
+    assert.deepEqual(chapters.map((c) => c.title), ['A', 'B', 'C']);
+  });
+
+  it('drops chapters outside the video', () => {
+    const chapters = Chapters.enforceYouTubeRules(
+      [
+        { start: -5, title: 'przed' },
+        { start: 0, title: 'A' },
+        { start: 60, title: 'B' },
+        { start: 120, title: 'C' },
+        { start: 400, title: 'po' },
+      ],
+      300,
+    );
+
+    assert.deepEqual(chapters.map((c) => c.title), ['A', 'B', 'C']);
+  });
+
+  it('returns nothing when too few chapters remain', () => {
+    assert.deepEqual(Chapters.enforceYouTubeRules([{ start: 0, title: 'A' }, { start: 60, title: 'B' }], 300), []);
+  });
+});
+
+describe('Chapters.shift', () => {
+  const original = [
+    { start: 0, title: 'A' },
+    { start: 60, title: 'B' },
+    { start: 120, title: 'C' },
+  ];
+
+  it('adds a prelude chapter for what plays before the original', () => {
+    assert.deepEqual(Chapters.shift(original, 30, 330), [
+      { start: 0, title: preludeTitle },
+      { start: 30, title: 'A' },
+      { start: 90, title: 'B' },
+      { start: 150, title: 'C' },
+    ]);
+  });
+
+  it('folds a too short prelude into the first chapter', () => {
+    assert.deepEqual(Chapters.shift(original, minLength / 2, 300 + minLength / 2), [
+      { start: 0, title: 'A' },
+      { start: 60 + minLength / 2, title: 'B' },
+      { start: 120 + minLength / 2, title: 'C' },
+    ]);
+  });
+});
+
+describe('Chapters formatting', () => {
+  it('writes "MM:SS Title" lines, with hours only for long videos', () => {
+    assert.equal(
+      Chapters.formatYouTube([
+        { start: 0, title: 'Start' },
+        { start: 75.9, title: 'Dalej' },
+      ]),
+      '00:00 Start\n01:15 Dalej',
+    );
+    assert.equal(
+      Chapters.formatYouTube([
+        { start: 0, title: 'Start' },
+        { start: 3725, title: 'Koniec' },
+      ]),
+      '0:00:00 Start\n1:02:05 Koniec',
+    );
+  });
+
+  it('writes FFMETADATA chapters ending where the next one starts', () => {
+    const metadata = Chapters.toFFMetadata(
+      [
+        { start: 0, title: 'A=B' },
+        { start: 12.5, title: 'C' },
+      ],
+      20,
+    );
+
+    assert.equal(
+      metadata,
+      [
+        ';FFMETADATA1',
+        '[CHAPTER]', 'TIMEBASE=1/1000', 'START=0', 'END=12500', 'title=A\\=B',
+        '[CHAPTER]', 'TIMEBASE=1/1000', 'START=12500', 'END=20000', 'title=C',
+        '',
+      ].join('\n'),
+    );
+  });
+});
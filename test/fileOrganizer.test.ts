@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it, mock } from 'node:test';
+import { FileOrganizer } from '../src/fileOrganizer';
+import { PlatformContentGenerator } from '../src/platformContentGenerator';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vide-agent-test-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const CHAPTERS = Array.from({ length: 20 }, (_, i) => ({ start: i * 60, title: `Rozdział ${i + 1}` }));
+
+function writeYouTubeFile(description: string): string {
+  const filePath = path.join(dir, 'youtube.txt');
+  const content = { hashtags: '#test', background: 'tło', title: 'Tytuł', description };
+  fs.writeFileSync(filePath, PlatformContentGenerator.formatPlatformFile(content), 'utf-8');
+  return filePath;
+}
+
+function readDescription(filePath: string): string {
+  return PlatformContentGenerator.parsePlatformFile(fs.readFileSync(filePath, 'utf-8')).description;
+}
+
+describe('FileOrganizer.appendChapters', () => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+
+  it('adds the chapter list after the description', () => {
+    const filePath = writeYouTubeFile('Krótki opis');
+
+    assert.equal(FileOrganizer.appendChapters(filePath, CHAPTERS.slice(0, 3)), null);
+    assert.equal(readDescription(filePath), 'Krótki opis\n\n00:00 Rozdział 1\n01:00 Rozdział 2\n02:00 Rozdział 3');
+  });
+
+  it('shortens the description to keep the chapters within 5000 characters', () => {
+    const filePath = writeYouTubeFile('słowo '.repeat(800).trim());
+    const issue = FileOrganizer.appendChapters(filePath, CHAPTERS, true);
+    const description = readDescription(filePath);
+
+    assert.equal(issue?.platform, 'youtube');
+    assert.equal(issue?.field, 'description');
+    assert.equal(issue?.repaired, true);
+    assert.ok(description.length <= 5000);
+    assert.ok(description.endsWith('19:00 Rozdział 20'));
+  });
+
+  it('leaves the description as it is without repair', () => {
+    const original = 'słowo '.repeat(800).trim();
+    const filePath = writeYouTubeFile(original);
+
+    assert.equal(FileOrganizer.appendChapters(filePath, CHAPTERS, false)?.repaired, false);
+    assert.ok(readDescription(filePath).startsWith(`${original}\n\n00:00 Rozdział 1`));
+  });
+});
+
+describe('FileOrganizer.replaceChapters', () => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+
+  function project(): string {
+    const folder = fs.mkdtempSync(path.join(dir, 'project-'));
+    const metadata = {
+      languages: { pl: { issues: [] }, en: { issues: [] } },
+      files: { youtube: 'youtube.txt', 'youtube.en': 'youtube.en.txt', facebook: 'facebook.txt' },
+    };
+    fs.writeFileSync(path.join(folder, 'platform_content.json'), JSON.stringify(metadata));
+    for (const fileName of Object.values(metadata.files)) {
+      const content = { hashtags: '#test', background: 'tło', title: 'Tytuł', description: `Opis ${fileName}` };
+      fs.writeFileSync(path.join(folder, fileName), PlatformContentGenerator.formatPlatformFile(content));
+    }
+    return folder;
+  }
+
+  it('swaps the chapter list for the shifted one, again on every assembly', () => {
+    const folder = project();
+    const youtubePath = path.join(folder, 'youtube.txt');
+    FileOrganizer.appendChapters(youtubePath, CHAPTERS.slice(0, 3));
+
+    const shifted = [
+      { start: 0, title: 'Zapowiedź' },
+      ...CHAPTERS.slice(0, 3).map((c) => ({ ...c, start: c.start + 30 })),
+    ];
+    assert.deepEqual(FileOrganizer.replaceChapters(folder, shifted), [youtubePath]);
+    assert.equal(
+      readDescription(youtubePath),
+      'Opis youtube.txt\n\n00:00 Zapowiedź\n00:30 Rozdział 1\n01:30 Rozdział 2\n02:30 Rozdział 3',
+    );
+
+    FileOrganizer.replaceChapters(folder, CHAPTERS.slice(0, 3));
+    assert.equal(
+      readDescription(youtubePath),
+      'Opis youtube.txt\n\n00:00 Rozdział 1\n01:00 Rozdział 2\n02:00 Rozdział 3',
+    );
+  });
+
+  it('leaves descriptions without chapters alone', () => {
+    const folder = project();
+
+    assert.deepEqual(FileOrganizer.replaceChapters(folder, CHAPTERS.slice(0, 3)), []);
+    assert.equal(readDescription(path.join(folder, 'youtube.en.txt')), 'Opis youtube.en.txt');
+  });
+
+  it('records a new length issue under the file language', () => {
+    const folder = project();
+    const youtubePath = path.join(folder, 'youtube.en.txt');
+    fs.writeFileSync(
+      youtubePath,
+      PlatformContentGenerator.formatPlatformFile({
+        hashtags: '#test',
+        background: 'tło',
+        title: 'Tytuł',
+        description: 'słowo '.repeat(790).trim(),
+      }),
+    );
+    assert.equal(FileOrganizer.appendChapters(youtubePath, CHAPTERS.slice(0, 3)), null);
+
+    FileOrganizer.replaceChapters(folder, CHAPTERS, true);
+    const metadata = JSON.parse(fs.readFileSync(path.join(folder, 'platform_content.json'), 'utf-8'));
+
+    assert.equal(metadata.languages.en.issues.length, 1);
+    assert.equal(metadata.languages.pl.issues.length, 0);
+    assert.ok(readDescription(youtubePath).length <= 5000);
+  });
+});
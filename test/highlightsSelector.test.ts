@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, mock } from 'node:test';
+import { HighlightsSelector } from '../src/highlightsSelector';
+import { Subtitles } from '../src/subtitles';
+
+const IDS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+function parse(input: string, mergeAdjacent = false): number[][] {
+  return HighlightsSelector['parseSelection'](input, IDS, mergeAdjacent);
+}
+
+describe('HighlightsSelector selection', () => {
+  it('gives one group per listed or ranged segment', () => {
+    assert.deepEqual(parse('1-3,7'), [[1], [2], [3], [7]]);
+  });
+
+  it('selects every segment with "all"', () => {
+    assert.equal(parse('ALL').length, IDS.length);
+    assert.deepEqual(parse('all', true), [IDS]);
+  });
+
+  it('joins a bracket group into one clip', () => {
+    assert.deepEqual(parse('[3-6],9,[11-12]'), [[3, 4, 5, 6], [9], [11, 12]]);
+  });
+
+  it('merges adjacent selections only when asked', () => {
+    assert.deepEqual(parse('2,3,5'), [[2], [3], [5]]);
+    assert.deepEqual(parse('2,3,5', true), [[2, 3], [5]]);
+  });
+
+  it('splits a bracket group with gaps into consecutive runs', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+      assert.deepEqual(parse('[3,6]'), [[3], [6]]);
+      assert.deepEqual(parse('[1-2,4-5]'), [[1, 2], [4, 5]]);
+      assert.equal(warn.mock.callCount(), 2);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+
+  it('uses a segment once, in the first group mentioning it', () => {
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+      assert.deepEqual(parse('5,[3-7]'), [[3, 4], [5], [6, 7]]);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+
+  it('ignores unknown ids and garbage', () => {
+    assert.deepEqual(parse('0,13,abc,10-20'), [[10], [11], [12]]);
+    assert.deepEqual(parse(''), []);
+  });
+});
+
+describe('HighlightsSelector.selectHighlights', () => {
+  it('fails the "suggested" selection when there are no suggestions', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vide-agent-test-'));
+    const srtPath = path.join(dir, 'film.srt');
+    fs.writeFileSync(srtPath, Subtitles.serializeSRT([{ id: 1, start: 0, end: 2, text: 'Dzień dobry' }]));
+
+    try {
+      await assert.rejects(
+        HighlightsSelector.selectHighlights(srtPath, null, { selection: 'suggested', suggest: false }),
+        /suggested/,
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
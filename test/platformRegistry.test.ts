@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { PlatformDefinition, PlatformRegistry } from '../src/platformRegistry';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vide-agent-test-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const LIMITS = { title: 100, description: 2000, hashtags: { min: 1, max: 5 } };
+
+function registry(platforms: Array<Partial<PlatformDefinition>>): string {
+  const filePath = path.join(dir, 'platforms.json');
+  fs.writeFileSync(filePath, JSON.stringify({ platforms }));
+  return filePath;
+}
+
+describe('PlatformRegistry.load', () => {
+  it('loads the repository registry', () => {
+    const platforms = PlatformRegistry.load(path.join(process.cwd(), 'additional', 'platforms.json'));
+    assert.ok(platforms.some((p) => p.name === 'youtube'));
+  });
+
+  it('fills in the label and file name', () => {
+    assert.deepEqual(PlatformRegistry.load(registry([{ name: 'mastodon', limits: LIMITS }])), [
+      { name: 'mastodon', label: 'mastodon', fileName: 'mastodon.txt', limits: LIMITS, tone: '' },
+    ]);
+  });
+
+  it('rejects a repeated platform name', () => {
+    const filePath = registry([
+      { name: 'blog', limits: LIMITS },
+      { name: 'blog', fileName: 'blog2.txt', limits: LIMITS },
+    ]);
+    assert.throws(() => PlatformRegistry.load(filePath), /powtórzona platforma "blog"/);
+  });
+
+  it('rejects two platforms writing the same file', () => {
+    const filePath = registry([
+      { name: 'blog', fileName: 'posts.txt', limits: LIMITS },
+      { name: 'newsletter', fileName: 'Posts.txt', limits: LIMITS },
+    ]);
+    assert.throws(() => PlatformRegistry.load(filePath), /plik "Posts.txt" powtórzony \(newsletter\)/);
+  });
+
+  it('rejects missing limits and reserved names', () => {
+    assert.throws(() => PlatformRegistry.load(registry([{ name: 'blog' }])), /nieprawidłowe "limits"/);
+    assert.throws(() => PlatformRegistry.load(registry([{ name: 'video', limits: LIMITS }])), /zarezerwowana/);
+  });
+});
+
+describe('PlatformRegistry.enforceLimits', () => {
+  const platform: PlatformDefinition = { name: 'blog', label: 'Blog', fileName: 'blog.txt', limits: LIMITS, tone: '' };
+
+  it('cuts long text and surplus hashtags when repairing', () => {
+    const { content, issues } = PlatformRegistry.enforceLimits(
+      { title: 'słowo '.repeat(30), description: 'Opis', background: '', hashtags: 'a b c d e f g' },
+      platform,
+      true,
+    );
+
+    assert.ok(content.title.length <= LIMITS.title);
+    assert.equal(content.hashtags, '#a, #b, #c, #d, #e');
+    assert.deepEqual(issues.map((i) => [i.field, i.repaired]), [['title', true], ['hashtags', true]]);
+  });
+
+  it('only reports what cannot be repaired', () => {
+    const { issues } = PlatformRegistry.enforceLimits(
+      { title: 'Tytuł', description: ' ', background: '', hashtags: '' },
+      platform,
+      true,
+    );
+
+    assert.deepEqual(issues.map((i) => [i.field, i.message, i.repaired]), [
+      ['description', 'puste pole', false],
+      ['hashtags', '0 hashtagów, minimum 1', false],
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it, mock } from 'node:test';
+import { config } from '../src/config';
+import { FakeLlmProvider, LlmProvider, LlmRequest, LlmResponse } from '../src/llmProviders';
+import { LlmOutputError, Schema, StructuredOutput } from '../src/structuredOutput';
+import { PromptInfo } from '../src/types';
+
+const SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    score: { type: 'number', integer: true, min: 1, max: 10 },
+    tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    note: { type: 'string' },
+  },
+  optional: ['note'],
+};
+
+const VALID = { title: 'Tytuł', score: 7, tags: ['a'] };
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vide-agent-test-'));
+
+/**
+ * Answers with the given texts in turn and keeps the requests it got
+ */
+class ScriptedLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+  readonly model = 'fake';
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private readonly answers: string[]) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.requests.push(structuredClone(request));
+    const text = this.answers[this.requests.length - 1] ?? '';
+    return { text, model: this.model, truncated: false, inputTokens: 0, outputTokens: 0 };
+  }
+}
+
+function promptInfo(template: string): PromptInfo {
+  return { profile: 'test', template, version: '1', source: `test/${template}.md` };
+}
+
+describe('StructuredOutput.parse', () => {
+  it('finds the JSON inside fences and text around it', () => {
+    const text = `Oto wynik:\n\`\`\`json\n${JSON.stringify(VALID)}\n\`\`\`\nI jeszcze {"inny": 1}`;
+    assert.deepEqual(StructuredOutput.parse(text, SCHEMA), { value: VALID, issues: [] });
+  });
+
+  it('reports a missing or broken JSON value', () => {
+    assert.deepEqual(StructuredOutput.parse('brak danych', SCHEMA).issues, ['brak obiektu JSON w odpowiedzi']);
+    assert.match(StructuredOutput.parse('{"title": }', SCHEMA).issues[0] ?? '', /^nieprawidłowy JSON/);
+  });
+});
+
+describe('StructuredOutput.validate', () => {
+  it('accepts a valid value and skips optional fields', () => {
+    assert.deepEqual(StructuredOutput.validate(VALID, SCHEMA), []);
+  });
+
+  it('reports every violation with its path', () => {
+    const issues = StructuredOutput.validate({ title: ' ', score: 7.5, tags: ['a', 3], note: null }, SCHEMA);
+
+    assert.deepEqual(issues, [
+      '$.title: pusty tekst',
+      '$.score: oczekiwano liczby całkowitej, jest 7.5',
+      '$.tags[1]: oczekiwano tekstu, jest number',
+      '$.note: oczekiwano tekstu, jest null',
+    ]);
+  });
+
+  it('checks ranges, enums and array sizes', () => {
+    assert.deepEqual(StructuredOutput.validate(11, { type: 'number', min: 1, max: 10 }), ['$: 11 poza zakresem 1..10']);
+    assert.deepEqual(StructuredOutput.validate('x', { type: 'string', enum: ['a', 'b'] }), ['$: "x" - dozwolone: a, b']);
+    assert.deepEqual(StructuredOutput.validate([], { type: 'array', items: { type: 'number' }, minItems: 2 }), [
+      '$: 0 elementów, minimum 2',
+    ]);
+  });
+});
+
+describe('StructuredOutput.request', () => {
+  before(() => {
+    config.cache.dir = path.join(dir, 'cache');
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+  });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('returns the fake provider fixture for the prompt template', async () => {
+    fs.mkdirSync(path.join(dir, 'llm'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'llm', 'demo.json'), `\`\`\`json\n${JSON.stringify(VALID)}\n\`\`\``);
+    const llm = new FakeLlmProvider(path.join(dir, 'llm'));
+
+    const request = { task: 'demo', prompt: 'Podaj tytuł', promptInfo: promptInfo('demo'), schema: SCHEMA, maxTokens: 100 };
+    assert.deepEqual(await StructuredOutput.request(llm, request), { data: VALID, attempts: 1 });
+    // The same request again is answered from the cache
+    assert.deepEqual(await StructuredOutput.request(llm, request), { data: VALID, attempts: 0 });
+  });
+
+  it('sends the validation errors back and uses the corrected response', async () => {
+    const llm = new ScriptedLlmProvider(['{"title": "", "score": 7, "tags": ["a"]}', JSON.stringify(VALID)]);
+
+    const response = await StructuredOutput.request(llm, {
+      task: 'repair',
+      prompt: 'Podaj tytuł (naprawa)',
+      schema: SCHEMA,
+      maxTokens: 100,
+      repairAttempts: 1,
+    });
+
+    assert.deepEqual(response, { data: VALID, attempts: 2 });
+    const repair = llm.requests[1]?.messages ?? [];
+    assert.equal(repair.length, 3);
+    assert.equal(repair[1]?.role, 'assistant');
+    assert.match(repair[2]?.content ?? '', /\$\.title: pusty tekst/);
+  });
+
+  it('runs the extra check on a schema-valid response', async () => {
+    const llm = new ScriptedLlmProvider([JSON.stringify({ ...VALID, score: 2 }), JSON.stringify(VALID)]);
+
+    const response = await StructuredOutput.request<typeof VALID>(llm, {
+      task: 'check',
+      prompt: 'Podaj tytuł (sprawdzenie)',
+      schema: SCHEMA,
+      maxTokens: 100,
+      check: (data) => (data.score < 5 ? ['$.score: za niska ocena'] : []),
+      repairAttempts: 1,
+    });
+
+    assert.equal(response.attempts, 2);
+    assert.match(llm.requests[1]?.messages[2]?.content ?? '', /za niska ocena/);
+  });
+
+  it('throws LlmOutputError when every attempt is invalid', async () => {
+    const llm = new ScriptedLlmProvider(['nic', 'dalej nic']);
+
+    await assert.rejects(
+      StructuredOutput.request(llm, {
+        task: 'broken',
+        prompt: 'Podaj tytuł (błąd)',
+        schema: SCHEMA,
+        maxTokens: 100,
+        repairAttempts: 1,
+      }),
+      (err) => err instanceof LlmOutputError && err.attempts === 2 && err.responseText === 'dalej nic',
+    );
+    assert.equal(llm.requests.length, 2);
+  });
+});
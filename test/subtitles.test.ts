@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SubtitleCue, Subtitles } from '../src/subtitles';
+
+const CUES: SubtitleCue[] = [
+  { id: 1, start: 0, end: 2.5, text: 'Dzień dobry' },
+  { id: 2, start: 3.04, end: 3725.999, text: 'Pierwsza linia\ndruga linia' },
+];
+
+describe('Subtitles timestamps', () => {
+  it('parses SRT, WebVTT and short forms', () => {
+    assert.equal(Subtitles.parseTimestamp('01:02:03,456'), 3723.456);
+    assert.equal(Subtitles.parseTimestamp('01:02:03.456'), 3723.456);
+    assert.equal(Subtitles.parseTimestamp('02:03.5'), 123.5);
+    assert.equal(Subtitles.parseTimestamp('00:00:07'), 7);
+  });
+
+  it('rejects what is not a timestamp', () => {
+    assert.throws(() => Subtitles.parseTimestamp('7 sekund'), /Invalid subtitle timestamp/);
+  });
+
+  it('formats with the separator of the format', () => {
+    assert.equal(Subtitles.formatTimestamp(3723.456), '01:02:03,456');
+    assert.equal(Subtitles.formatTimestamp(3723.456, '.'), '01:02:03.456');
+    assert.equal(Subtitles.formatTimestamp(-1), '00:00:00,000');
+  });
+});
+
+describe('Subtitles.parseSRT', () => {
+  it('reads the cues back from serializeSRT', () => {
+    assert.deepEqual(Subtitles.parseSRT(Subtitles.serializeSRT(CUES)), CUES);
+  });
+
+  it('tolerates BOM, CRLF, missing numbers and blank lines inside a cue', () => {
+    const content =
+      '\uFEFF00:00:01,000 --> 00:00:02,000\r\nbez numeru\r\n\r\n' +
+      '7\r\n00:00:03.000 --> 00:00:04.000\r\nprzed pustą\r\n\r\npo pustej\r\n';
+
+    assert.deepEqual(Subtitles.parseSRT(content), [
+      { id: 1, start: 1, end: 2, text: 'bez numeru' },
+      { id: 7, start: 3, end: 4, text: 'przed pustą\npo pustej' },
+    ]);
+  });
+
+  it('skips cues with unreadable timings', () => {
+    const content = '1\nxx:yy --> 00:00:02,000\nzła\n\n2\n00:00:03,000 --> 00:00:04,000\ndobra\n';
+    assert.deepEqual(Subtitles.parseSRT(content).map((c) => c.text), ['dobra']);
+  });
+});
+
+describe('Subtitles WebVTT', () => {
+  it('round-trips through serializeVTT', () => {
+    const vtt = Subtitles.serializeVTT(CUES);
+
+    assert.ok(vtt.startsWith('WEBVTT\n\n'));
+    assert.match(vtt, /00:00:03\.040 --> 01:02:05\.999/);
+    assert.deepEqual(Subtitles.parseVTT(vtt), CUES);
+  });
+
+  it('drops NOTE blocks and voice tags', () => {
+    const content = 'WEBVTT\n\nNOTE komentarz\n\n00:01.000 --> 00:02.000\n<v Anna>Cześć</v>\n';
+    assert.deepEqual(Subtitles.parseVTT(content), [{ id: 1, start: 1, end: 2, text: 'Cześć' }]);
+  });
+
+  it('converts SRT to VTT and back', () => {
+    const srt = Subtitles.serializeSRT(CUES);
+    assert.equal(Subtitles.convert(Subtitles.convert(srt, 'srt', 'vtt'), 'vtt', 'srt'), srt);
+  });
+});
+
+describe('Subtitles.validate', () => {
+  it('reports broken timings, empty text and overlaps', () => {
+    const issues = Subtitles.validate([
+      { id: 1, start: 0, end: 2, text: 'a' },
+      { id: 2, start: 1, end: 3, text: '' },
+      { id: 3, start: 5, end: 4, text: 'c' },
+    ]);
+
+    assert.deepEqual(
+      issues.map((i) => [i.cueId, i.severity, i.message]),
+      [
+        [2, 'warning', 'empty text'],
+        [2, 'warning', 'overlaps cue 1'],
+        [3, 'error', 'end time is not after start time'],
+      ],
+    );
+  });
+});
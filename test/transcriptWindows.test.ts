@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { config } from '../src/config';
+import { SubtitleCue } from '../src/subtitles';
+import { TranscriptWindows } from '../src/transcriptWindows';
+
+// One cue every 10 seconds
+function cues(count: number): SubtitleCue[] {
+  return Array.from({ length: count }, (_, i) => ({ id: i + 1, start: i * 10, end: i * 10 + 8, text: `zdanie ${i + 1}` }));
+}
+
+describe('TranscriptWindows.split', () => {
+  it('returns nothing for an empty transcript', () => {
+    assert.deepEqual(TranscriptWindows.split([], 60, 10), []);
+  });
+
+  it('keeps a short transcript in one window', () => {
+    const windows = TranscriptWindows.split(cues(5), 60, 10);
+
+    assert.equal(windows.length, 1);
+    assert.deepEqual(windows[0], { start: 0, end: 48, cues: cues(5) });
+  });
+
+  it('overlaps consecutive windows', () => {
+    const windows = TranscriptWindows.split(cues(12), 60, 20);
+
+    assert.deepEqual(
+      windows.map((w) => [w.start, w.end, w.cues.map((c) => c.id)]),
+      [
+        [0, 60, [1, 2, 3, 4, 5, 6]],
+        [40, 100, [5, 6, 7, 8, 9, 10]],
+        [80, 118, [9, 10, 11, 12]],
+      ],
+    );
+  });
+
+  it('puts every cue in at least one window', () => {
+    const all = cues(200);
+    const covered = new Set(TranscriptWindows.split(all, 300, 30).flatMap((w) => w.cues.map((c) => c.id)));
+
+    assert.equal(covered.size, all.length);
+  });
+
+  it('skips windows without cues', () => {
+    const sparse = [
+      { id: 1, start: 0, end: 5, text: 'początek' },
+      { id: 2, start: 500, end: 505, text: 'koniec' },
+    ];
+
+    assert.deepEqual(
+      TranscriptWindows.split(sparse, 100, 0).map((w) => w.cues.map((c) => c.id)),
+      [[1], [2]],
+    );
+  });
+});
+
+describe('TranscriptWindows.shouldSplit', () => {
+  const { mode, maxInputTokens } = config.longTranscripts;
+  afterEach(() => {
+    config.longTranscripts.mode = mode;
+    config.longTranscripts.maxInputTokens = maxInputTokens;
+  });
+
+  it('splits in auto mode only above the token limit', () => {
+    config.longTranscripts.mode = 'auto';
+    config.longTranscripts.maxInputTokens = 100;
+    const limit = 100 * config.longTranscripts.charsPerToken;
+
+    assert.equal(TranscriptWindows.shouldSplit('x'.repeat(limit)), false);
+    assert.equal(TranscriptWindows.shouldSplit('x'.repeat(limit + 10)), true);
+  });
+
+  it('follows a forced mode', () => {
+    config.longTranscripts.mode = 'single';
+    assert.equal(TranscriptWindows.shouldSplit('x'.repeat(1_000_000)), false);
+    config.longTranscripts.mode = 'windows';
+    assert.equal(TranscriptWindows.shouldSplit('x'), true);
+  });
+});
+
+describe('TranscriptWindows formatting', () => {
+  it('writes one line per cue with its id and start time', () => {
+    const formatted = TranscriptWindows.formatCues([{ id: 12, start: 843.5, end: 850, text: 'dwie\nlinie' }]);
+    assert.equal(formatted, '12 [00:14:03] dwie linie');
+  });
+
+  it('lists window summaries with their key points and chapters', () => {
+    const digest = TranscriptWindows.formatDigest([
+      { start: 0, end: 900, firstSegment: 1, lastSegment: 40, summary: 'Wstęp', keyPoints: ['cel'], chapters: [] },
+      {
+        start: 840,
+        end: 1500,
+        firstSegment: 38,
+        lastSegment: 70,
+        summary: 'Przykłady',
+        keyPoints: [],
+        chapters: [{ segment: 45, title: 'Demo' }],
+      },
+    ]);
+
+    assert.equal(
+      digest,
+      [
+        '## Fragment 1/2 (00:00:00-00:15:00, segmenty 1-40)',
+        'Wstęp',
+        'Kluczowe punkty:',
+        '- cel',
+        '',
+        '## Fragment 2/2 (00:14:00-00:25:00, segmenty 38-70)',
+        'Przykłady',
+        'Proponowane rozdziały:',
+        '- segment 45: Demo',
+      ].join('\n'),
+    );
+  });
+});